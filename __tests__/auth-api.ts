@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server'
+import { vi } from 'vitest'
+import * as nonceRoute from '@/app/api/auth/nonce/route'
+import * as sessionRoute from '@/app/api/auth/session/route'
+import * as verifyRoute from '@/app/api/auth/verify/route'
+
+type Handler = (request: NextRequest) => Promise<Response>
+
+const routes: Record<string, Partial<Record<string, Handler>>> = {
+  '/api/auth/nonce': { GET: () => nonceRoute.GET() },
+  '/api/auth/session': { GET: sessionRoute.GET, DELETE: sessionRoute.DELETE },
+  '/api/auth/verify': { POST: verifyRoute.POST },
+}
+
+/**
+ * Serves the sign-in API from its real route handlers, with a cookie jar
+ * standing in for the browser's, so signatures from the simulated wallets are
+ * verified exactly as in the app. Any other request fails with a 404.
+ */
+export function installAuthApi() {
+  const cookies = new Map<string, string>()
+
+  const fetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString(), window.location.origin)
+    const handler = routes[url.pathname]?.[init?.method ?? 'GET']
+    if (!handler) return new Response(null, { status: 404 })
+
+    const headers = new Headers(init?.headers)
+    headers.set('cookie', Array.from(cookies, ([name, value]) => `${name}=${value}`).join('; '))
+    const response = await handler(new NextRequest(url, { method: init?.method, headers, body: init?.body }))
+
+    // Deleted cookies come back empty
+    for (const cookie of response.headers.getSetCookie()) {
+      const [pair] = cookie.split(';')
+      const name = pair.slice(0, pair.indexOf('='))
+      const value = pair.slice(pair.indexOf('=') + 1)
+      if (value) cookies.set(name, value)
+      else cookies.delete(name)
+    }
+    return response
+  })
+
+  vi.stubGlobal('fetch', fetch)
+  return { fetch, cookies }
+}
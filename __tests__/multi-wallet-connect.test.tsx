@@ -0,0 +1,139 @@
+import { render, screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { beforeEach, describe, expect, it, onTestFinished, vi } from 'vitest'
+import { I18nProvider } from '@/app/components/i18n-provider'
+import { WalletProvider } from '@/app/components/wallet-provider'
+import { MultiWalletConnect } from '@/components/ui/multi-wallet-connect'
+import { Toaster } from '@/components/ui/toaster'
+import { getMessages } from '@/lib/i18n/messages'
+import { truncateAddress } from '@/lib/utils'
+import { installSimulatedWallets } from '@/lib/wallets/simulated'
+import { installAuthApi } from './auth-api'
+
+// Wallets announce themselves once per page, so these last for the whole file
+const simulated = installSimulatedWallets()
+
+function renderConnect() {
+  return render(
+    <I18nProvider locale="en" messages={getMessages('en')}>
+      <WalletProvider>
+        <MultiWalletConnect />
+        <Toaster />
+      </WalletProvider>
+    </I18nProvider>,
+  )
+}
+
+// The connect dialog stays open behind the error toast and hides the rest of the page from queries
+const toastAction = (name: string) => screen.getByRole('button', { name, hidden: true })
+
+// Toasts take pointer events back with a Tailwind class, and there is no stylesheet here
+const clickToastAction = (name: string) => userEvent.setup({ pointerEventsCheck: 0 }).click(toastAction(name))
+
+async function connectFromDialog(walletName: string) {
+  const user = userEvent.setup()
+  await user.click(await screen.findByRole('button', { name: 'Connect Wallet' }))
+  await user.click(within(screen.getByRole('dialog')).getByRole('button', { name: new RegExp(`^Connect ${walletName}`) }))
+  return user
+}
+
+describe('MultiWalletConnect', () => {
+  beforeEach(() => {
+    simulated.ethereum.disconnect()
+    simulated.solana.disconnect()
+    simulated.keplr.unlock()
+    installAuthApi()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('connects a wallet and shows its account', async () => {
+    renderConnect()
+
+    await connectFromDialog('Simulated EVM Wallet')
+
+    await waitFor(() => expect(screen.queryByRole('dialog')).toBeNull())
+    expect(screen.getByRole('button', { name: 'Switch wallet account' }).textContent)
+      .toContain(truncateAddress(simulated.ethereum.accounts[0]))
+  })
+
+  it('holds a placeholder while restoring, then shows the restored account', async () => {
+    const first = renderConnect()
+    await connectFromDialog('Simulated EVM Wallet')
+    await screen.findByRole('button', { name: 'Switch wallet account' })
+    first.unmount()
+
+    renderConnect()
+
+    expect(screen.getByRole('button', { name: 'Restoring wallet connection' }).getAttribute('aria-busy')).toBe('true')
+    expect((await screen.findByRole('button', { name: 'Switch wallet account' })).textContent)
+      .toContain(truncateAddress(simulated.ethereum.accounts[0]))
+  })
+
+  it('switches accounts from the account menu', async () => {
+    renderConnect()
+    const user = await connectFromDialog('Simulated EVM Wallet')
+    const second = truncateAddress(simulated.ethereum.accounts[1])
+
+    await user.click(await screen.findByRole('button', { name: 'Switch wallet account' }))
+    // Radix submenus close under user-event's pointer moves, so this goes by keyboard.
+    // The wallet's submenu lists the active account first.
+    const walletItem = await screen.findByRole('menuitem', { name: /Simulated EVM Wallet/ })
+    walletItem.focus()
+    await user.keyboard('{ArrowRight}')
+    await screen.findAllByRole('menuitemradio')
+    await user.keyboard('{ArrowDown}{Enter}')
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Switch wallet account' }).textContent).toContain(second))
+  })
+
+  it('disconnects from the manage dialog', async () => {
+    renderConnect()
+    const user = await connectFromDialog('Phantom')
+
+    await user.click(await screen.findByRole('button', { name: 'Switch wallet account' }))
+    await user.click(await screen.findByRole('menuitem', { name: 'Manage connection' }))
+    await user.click(within(await screen.findByRole('dialog')).getByRole('button', { name: 'Disconnect Phantom' }))
+
+    expect(await screen.findByRole('button', { name: 'Connect Wallet' })).toBeTruthy()
+    expect(localStorage.getItem('connectedWallets')).toBe('[]')
+  })
+
+  it('offers a retry when the sign-in request is rejected', async () => {
+    renderConnect()
+    simulated.ethereum.rejectNext('personal_sign')
+
+    await connectFromDialog('Simulated EVM Wallet')
+
+    expect(await screen.findByText('Request cancelled')).toBeTruthy()
+    await clickToastAction('Retry')
+    expect((await screen.findByRole('button', { name: 'Switch wallet account' })).textContent)
+      .toContain(truncateAddress(simulated.ethereum.accounts[0]))
+  })
+
+  it('asks to unlock a locked Keplr', async () => {
+    renderConnect()
+    simulated.keplr.lock()
+
+    await connectFromDialog('Keplr')
+
+    expect(await screen.findByText('Keplr is locked')).toBeTruthy()
+    expect(toastAction('Open wallet')).toBeTruthy()
+    expect(within(screen.getByRole('dialog')).getByRole('button', { name: /^Connect Keplr/ })).toHaveProperty('disabled', false)
+  })
+
+  it('links to the install page of a missing wallet', async () => {
+    const keplr = window.keplr
+    delete window.keplr
+    onTestFinished(() => {
+      window.keplr = keplr
+    })
+    const open = vi.spyOn(window, 'open').mockImplementation(() => null)
+    renderConnect()
+
+    await connectFromDialog('Keplr')
+
+    expect(await screen.findByText('Keplr is not installed')).toBeTruthy()
+    await clickToastAction('Install')
+    expect(open).toHaveBeenCalledWith('https://www.keplr.app/get', '_blank', 'noopener,noreferrer')
+  })
+})
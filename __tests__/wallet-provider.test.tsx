@@ -0,0 +1,193 @@
+import * as React from 'react'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { I18nProvider } from '@/app/components/i18n-provider'
+import { WalletProvider } from '@/app/components/wallet-provider'
+import { useWallet } from '@/hooks/use-wallet'
+import { getMessages } from '@/lib/i18n/messages'
+import { getWallet, toWalletError, type WalletAdapter } from '@/lib/wallets'
+import { installSimulatedWallets } from '@/lib/wallets/simulated'
+import { installAuthApi } from './auth-api'
+
+const EVM_WALLET = 'eip6963:dev.simulated.wallet'
+
+// Wallets announce themselves once per page, so these last for the whole file
+const simulated = installSimulatedWallets()
+
+function Providers({ children }: { children: React.ReactNode }) {
+  return (
+    <I18nProvider locale="en" messages={getMessages('en')}>
+      <WalletProvider>{children}</WalletProvider>
+    </I18nProvider>
+  )
+}
+
+// Renders the provider and waits for the restore on mount to finish
+async function renderWallet() {
+  const view = renderHook(() => useWallet(), { wrapper: Providers })
+  await waitFor(() => expect(view.result.current.status).not.toBe('restoring'))
+  return view
+}
+
+function wallet(id: string): WalletAdapter {
+  const adapter = getWallet(id)
+  if (!adapter) throw new Error(`${id} is not registered`)
+  return adapter
+}
+
+describe('WalletProvider', () => {
+  let api: ReturnType<typeof installAuthApi>
+
+  beforeEach(() => {
+    simulated.ethereum.disconnect()
+    simulated.ethereum.selectAccount(0)
+    simulated.solana.disconnect()
+    simulated.keplr.unlock()
+    api = installAuthApi()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('connects and signs in with the first account', async () => {
+    const { result } = await renderWallet()
+    await act(() => result.current.connect(wallet(EVM_WALLET)))
+
+    expect(result.current.status).toBe('connected')
+    expect(result.current.account).toBe(simulated.ethereum.accounts[0])
+    expect(result.current.chain?.id).toBe('31337')
+    expect(result.current.session?.identities).toEqual([
+      expect.objectContaining({ walletType: EVM_WALLET, address: simulated.ethereum.accounts[0] }),
+    ])
+    expect(JSON.parse(localStorage.getItem('connectedWallets')!)).toEqual([EVM_WALLET])
+  })
+
+  it('restores the previous connection on load without prompting', async () => {
+    const first = await renderWallet()
+    await act(() => first.result.current.connect(wallet(EVM_WALLET)))
+    first.unmount()
+
+    const request = vi.spyOn(simulated.ethereum.provider, 'request')
+    const { result } = await renderWallet()
+
+    expect(result.current.status).toBe('connected')
+    expect(result.current.account).toBe(simulated.ethereum.accounts[0])
+    const methods = request.mock.calls.map(([{ method }]) => method)
+    expect(methods).not.toContain('eth_requestAccounts')
+    expect(methods).not.toContain('personal_sign')
+  })
+
+  it('restores Keplr on the chain it was last on', async () => {
+    const first = await renderWallet()
+    await act(() => first.result.current.connect(wallet('keplr')))
+    await act(() => first.result.current.switchChain('osmosis-1'))
+    await waitFor(() => expect(first.result.current.chain?.id).toBe('osmosis-1'))
+    first.unmount()
+
+    const { result } = await renderWallet()
+
+    expect(result.current.status).toBe('connected')
+    expect(result.current.chain?.id).toBe('osmosis-1')
+    expect(result.current.account).toBe(simulated.keplr.addressFor('osmosis-1'))
+  })
+
+  it('does not restore a wallet the session no longer covers', async () => {
+    const first = await renderWallet()
+    await act(() => first.result.current.connect(wallet(EVM_WALLET)))
+    first.unmount()
+    api.cookies.clear()
+
+    const { result } = await renderWallet()
+
+    expect(result.current.status).toBe('disconnected')
+    expect(result.current.connections).toEqual([])
+  })
+
+  it('keeps the active account when the wallet lists another one first', async () => {
+    const { result } = await renderWallet()
+    await act(() => result.current.connect(wallet(EVM_WALLET)))
+
+    act(() => simulated.ethereum.selectAccount(1))
+
+    await waitFor(() => expect(result.current.connections[0].accounts[0]).toBe(simulated.ethereum.accounts[1]))
+    expect(result.current.account).toBe(simulated.ethereum.accounts[0])
+  })
+
+  it('signs in the replacement when the active account leaves the wallet', async () => {
+    const { result } = await renderWallet()
+    await act(() => result.current.connect(wallet('phantom')))
+
+    act(() => simulated.solana.selectAccount(1))
+
+    await waitFor(() => expect(result.current.account).toBe(simulated.solana.accounts[1]))
+    expect(result.current.session?.identities.map(({ address }) => address)).toEqual(simulated.solana.accounts.slice(0, 2))
+  })
+
+  it('signs in an account before switching to it', async () => {
+    const { result } = await renderWallet()
+    await act(() => result.current.connect(wallet(EVM_WALLET)))
+    const [, second] = result.current.connections[0].accounts
+
+    await act(() => result.current.selectAccount(EVM_WALLET, second))
+
+    expect(result.current.account).toBe(second)
+    expect(result.current.session?.identities.map(({ address }) => address)).toContain(second)
+  })
+
+  it('disconnects when the wallet revokes access', async () => {
+    const { result } = await renderWallet()
+    await act(() => result.current.connect(wallet(EVM_WALLET)))
+
+    act(() => simulated.ethereum.disconnect())
+
+    await waitFor(() => expect(result.current.status).toBe('disconnected'))
+    expect(result.current.account).toBe('')
+  })
+
+  it('signs out only the disconnected wallet', async () => {
+    const { result } = await renderWallet()
+    await act(() => result.current.connect(wallet(EVM_WALLET)))
+    await act(() => result.current.connect(wallet('phantom')))
+    const disconnect = vi.spyOn(simulated.solana.provider, 'disconnect')
+
+    act(() => result.current.disconnect('phantom'))
+
+    // Phantom answers with a disconnect event, which must not disconnect it again
+    expect(disconnect).toHaveBeenCalledTimes(1)
+    expect(result.current.connections.map(({ wallet }) => wallet.id)).toEqual([EVM_WALLET])
+    expect(result.current.account).toBe(simulated.ethereum.accounts[0])
+    await waitFor(() => expect(result.current.session?.identities).toHaveLength(1))
+    expect(result.current.session?.identities[0].walletType).toBe(EVM_WALLET)
+  })
+
+  it('stays disconnected when the sign-in request is rejected', async () => {
+    const { result } = await renderWallet()
+    simulated.ethereum.rejectNext('personal_sign')
+
+    const error = await act(() => result.current.connect(wallet(EVM_WALLET)).then(() => null, (caught: unknown) => caught))
+
+    expect(toWalletError(error).code).toBe('user_rejected')
+    expect(result.current.status).toBe('disconnected')
+    expect(result.current.session).toBeNull()
+  })
+
+  it('reports a locked Keplr', async () => {
+    const { result } = await renderWallet()
+    simulated.keplr.lock()
+
+    const error = await act(() => result.current.connect(wallet('keplr')).then(() => null, (caught: unknown) => caught))
+
+    expect(toWalletError(error).code).toBe('locked')
+    expect(result.current.connections).toEqual([])
+  })
+
+  it('asks to reconnect when the wallet no longer authorizes the site', async () => {
+    const { result } = await renderWallet()
+    await act(() => result.current.connect(wallet(EVM_WALLET)))
+    const [first, second] = result.current.connections[0].accounts
+    await simulated.ethereum.provider.request({ method: 'wallet_revokePermissions' })
+
+    const error = await act(() => result.current.selectAccount(EVM_WALLET, second).then(() => null, (caught: unknown) => caught))
+
+    expect(toWalletError(error).code).toBe('unauthorized')
+    expect(result.current.account).toBe(first)
+  })
+})
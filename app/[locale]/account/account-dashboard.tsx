@@ -0,0 +1,226 @@
+"use client"
+
+import * as React from "react"
+import dynamic from "next/dynamic"
+import { useRouter } from "next/navigation"
+import { Check, Copy, ExternalLink, Loader2, LogOut } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { AddressDisplay } from "@/components/ui/address-display"
+import { NetworkSwitcher } from "@/components/ui/network-switcher"
+import { WalletBalances } from "@/components/ui/wallet-balances"
+import { useWalletErrorToast } from "@/components/ui/wallet-error-toast"
+import { useI18n } from "@/hooks/use-i18n"
+import { toast } from "@/hooks/use-toast"
+import { useWallet } from "@/hooks/use-wallet"
+import { useWalletHistory } from "@/hooks/use-wallet-history"
+import { getSupportedChain } from "@/lib/chains"
+import { formatDate, interpolate, localizePath } from "@/lib/i18n"
+import { clearWalletHistory, type WalletFamily } from "@/lib/wallets"
+
+const MultiWalletConnect = dynamic(() => import("@/components/ui/multi-wallet-connect").then(mod => mod.MultiWalletConnect), { ssr: false })
+
+function CopyAddressButton({ address }: { address: string }) {
+  const [copied, setCopied] = React.useState(false)
+  const { messages } = useI18n()
+
+  React.useEffect(() => {
+    if (!copied) return
+    const timer = setTimeout(() => setCopied(false), 1500)
+    return () => clearTimeout(timer)
+  }, [copied])
+
+  const copyAddress = () => {
+    navigator.clipboard.writeText(address)
+      .then(() => setCopied(true))
+      .catch(() => toast({ variant: "destructive", title: messages.account.copyFailed }))
+  }
+
+  return (
+    <Button variant="ghost" size="icon" onClick={copyAddress} aria-label={copied ? messages.account.addressCopied : messages.account.copyAddress}>
+      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+    </Button>
+  )
+}
+
+function ExplorerLink({ family, chainId, address }: { family: WalletFamily; chainId?: string; address: string }) {
+  const { messages } = useI18n()
+  const url = chainId ? getSupportedChain(family, chainId)?.addressExplorer?.(address) : undefined
+  if (!url) return null
+
+  return (
+    <Button variant="ghost" size="icon" asChild>
+      <a href={url} target="_blank" rel="noopener noreferrer" aria-label={messages.account.viewInExplorer}>
+        <ExternalLink className="h-4 w-4" />
+      </a>
+    </Button>
+  )
+}
+
+export function AccountDashboard() {
+  const router = useRouter()
+  const { connections, session, wallet, account, status, selectAccount, disconnectAll } = useWallet()
+  const history = useWalletHistory()
+  const { locale, messages } = useI18n()
+  const copy = messages.account
+  const showWalletError = useWalletErrorToast()
+
+  if (status === "restoring") {
+    return (
+      <p className="flex items-center justify-center text-muted-foreground" aria-busy="true">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        {copy.loading}
+      </p>
+    )
+  }
+
+  // The session cookie can outlive the wallet connection, e.g. when the extension is locked
+  if (!wallet) {
+    return (
+      <Card className="mx-auto max-w-md">
+        <CardHeader>
+          <CardTitle>{copy.noWalletTitle}</CardTitle>
+          <CardDescription>{copy.noWalletDescription}</CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-center">
+          <MultiWalletConnect />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const switchAccount = async (walletId: string, address: string) => {
+    const connection = connections.find((candidate) => candidate.wallet.id === walletId)
+    try {
+      await selectAccount(walletId, address)
+    } catch (error) {
+      console.error("Failed to switch account:", error)
+      showWalletError(error, connection?.wallet ?? null, () => switchAccount(walletId, address))
+    }
+  }
+
+  const signOutEverywhere = () => {
+    disconnectAll()
+    router.push(localizePath(locale, "/"))
+  }
+
+  return (
+    <div className="grid gap-8 md:grid-cols-2">
+      <Card className="md:col-span-2">
+        <CardHeader>
+          <CardTitle>{copy.walletsTitle}</CardTitle>
+          <CardDescription>{copy.walletsDescription}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {connections.map(({ wallet: connected, accounts, chain }) => (
+            <div key={connected.id} className="space-y-2">
+              <p className="font-medium">
+                {connected.name}
+                <span className="ml-2 text-sm text-muted-foreground">
+                  {chain
+                    ? getSupportedChain(connected.family, chain.id)?.name ?? interpolate(messages.network.chain, { id: chain.id })
+                    : copy.unknownNetwork}
+                </span>
+              </p>
+              <ul className="space-y-1">
+                {accounts.map((address) => {
+                  const isActive = connected.id === wallet.id && address === account
+                  return (
+                    <li key={address} className="flex items-center justify-between gap-2 text-sm">
+                      <AddressDisplay family={connected.family} address={address} />
+                      <div className="flex shrink-0 items-center">
+                        {isActive ? (
+                          <span className="mr-2 text-xs text-muted-foreground">{copy.active}</span>
+                        ) : (
+                          <Button variant="outline" size="sm" onClick={() => switchAccount(connected.id, address)}>
+                            {copy.use}
+                          </Button>
+                        )}
+                        <CopyAddressButton address={address} />
+                        <ExplorerLink family={connected.family} chainId={chain?.id} address={address} />
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{copy.network}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <NetworkSwitcher />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{messages.balances.title}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <WalletBalances />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{copy.session}</CardTitle>
+          {session && (
+            <CardDescription>{interpolate(copy.signedInUntil, { date: formatDate(locale, session.expiresAt) })}</CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ul className="space-y-1 text-sm">
+            {session?.identities.map((identity) => (
+              <li key={`${identity.walletType}:${identity.address}`} className="flex justify-between gap-2">
+                <AddressDisplay family={identity.family} address={identity.address} />
+                <span className="shrink-0 text-muted-foreground">
+                  {interpolate(copy.verified, { date: formatDate(locale, identity.verifiedAt) })}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <Button variant="destructive" onClick={signOutEverywhere}>
+            <LogOut className="mr-2 h-4 w-4" />
+            {copy.signOutAll}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>{copy.history}</CardTitle>
+          {history.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={clearWalletHistory}>{copy.clear}</Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{copy.noHistory}</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {history.map((event) => (
+                <li key={`${event.at}:${event.type}:${event.walletId}`} className="flex justify-between gap-2">
+                  <span>
+                    {copy.events[event.type]} <span className="text-muted-foreground">{event.walletName}</span>
+                    {event.chainId && event.type === "chain_changed" && (
+                      <span className="text-muted-foreground">
+                        {" "}
+                        {interpolate(copy.changedTo, { chain: getSupportedChain(event.family, event.chainId)?.name ?? event.chainId })}
+                      </span>
+                    )}
+                  </span>
+                  <span className="shrink-0 text-muted-foreground">{formatDate(locale, event.at)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { localizePath, type Locale } from '@/lib/i18n'
+import { getMessages } from '@/lib/i18n/messages'
+import { AccountDashboard } from './account-dashboard'
+
+interface AccountPageProps {
+  params: { locale: Locale }
+}
+
+export function generateMetadata({ params }: AccountPageProps): Metadata {
+  return { title: getMessages(params.locale).account.title, robots: { index: false } }
+}
+
+// Signed-in visitors only; see the /account rule in lib/auth/routes.ts
+export default function AccountPage({ params }: AccountPageProps) {
+  const { account, nav } = getMessages(params.locale)
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold">{account.title}</h1>
+          <Link href={localizePath(params.locale, '/')} className="hover:underline">{nav.backToHome}</Link>
+        </div>
+      </header>
+      <main className="container mx-auto px-4 py-8">
+        <AccountDashboard />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,304 @@
+"use client"
+
+import * as React from "react"
+import { useRouter } from "next/navigation"
+import { ArrowDown, ArrowUp, Loader2, MoreHorizontal, Pencil, Plus, Trash2, Upload, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { AddressDisplay } from "@/components/ui/address-display"
+import { useI18n } from "@/hooks/use-i18n"
+import { toast } from "@/hooks/use-toast"
+import { collectionIds, collections, itemKey, type CollectionId, type CollectionItems } from "@/lib/admin/collections"
+import { canPublish, type AdminUser } from "@/lib/admin/roles"
+import type { AuditEntry, AuditAction } from "@/lib/admin/audit"
+import type { CmsState } from "@/lib/admin/store"
+import { formatDate } from "@/lib/i18n"
+import { ItemForm } from "./item-form"
+
+type Item = CollectionItems[CollectionId][number]
+
+const actionLabels: Record<AuditAction, string> = {
+  save_draft: "Saved draft",
+  discard_draft: "Discarded draft",
+  publish: "Published",
+  upload: "Uploaded",
+}
+
+function itemDetails(collection: CollectionId, item: Item) {
+  switch (collection) {
+    case "projects": {
+      const project = item as CollectionItems["projects"][number]
+      return { title: project.title, description: `/${project.slug} · ${project.summary}` }
+    }
+    case "team": {
+      const member = item as CollectionItems["team"][number]
+      return { title: member.name, description: member.role }
+    }
+    case "about": {
+      const block = item as CollectionItems["about"][number]
+      return { title: block.title, description: block.body }
+    }
+  }
+}
+
+async function request(url: string, init?: RequestInit) {
+  const response = await fetch(url, init)
+  const result = (await response.json().catch(() => ({}))) as { error?: string; issues?: { message: string }[] }
+  if (!response.ok) throw new Error(result.issues?.[0]?.message ?? result.error ?? "Request failed")
+}
+
+type Editing = { index: number | null } | null
+
+interface AdminDashboardProps {
+  user: AdminUser
+  state: CmsState
+  audit: AuditEntry[] | null
+}
+
+export function AdminDashboard({ user, state, audit }: AdminDashboardProps) {
+  const router = useRouter()
+  const { locale, messages: { dialog } } = useI18n()
+  const [isRefreshing, startTransition] = React.useTransition()
+  const [collection, setCollection] = React.useState<CollectionId>("projects")
+  const [editing, setEditing] = React.useState<Editing>(null)
+  const [deleting, setDeleting] = React.useState<number | null>(null)
+  const [isBusy, setIsBusy] = React.useState(false)
+
+  const { items, hasDraft } = state[collection]
+  const label = collections[collection].label
+  const teamNames = state.team.items.map(({ name }) => name)
+
+  // Every mutation goes to the server, then the page re-renders from what it stored
+  const run = async (title: string, action: () => Promise<void>) => {
+    setIsBusy(true)
+    try {
+      await action()
+      startTransition(() => router.refresh())
+      return true
+    } catch (error) {
+      toast({ variant: "destructive", title, description: error instanceof Error ? error.message : undefined })
+      return false
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const saveItems = (next: Item[]) => run("Could not save the draft", () => request(`/api/admin/content/${collection}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ items: next }),
+  }))
+
+  const saveItem = async (item: Item) => {
+    const next = [...items] as Item[]
+    if (editing?.index == null) next.push(item)
+    else next[editing.index] = item
+    if (await saveItems(next)) setEditing(null)
+  }
+
+  const moveItem = (index: number, offset: number) => {
+    const next = [...items] as Item[]
+    const [item] = next.splice(index, 1)
+    next.splice(index + offset, 0, item)
+    saveItems(next)
+  }
+
+  const deleteItem = async () => {
+    if (deleting === null) return
+    if (await saveItems(items.filter((_, index) => index !== deleting) as Item[])) setDeleting(null)
+  }
+
+  const publish = () => run(`Could not publish ${label.toLowerCase()}`, async () => {
+    await request(`/api/admin/content/${collection}/publish`, { method: "POST" })
+    toast({ title: `${label} published` })
+  })
+
+  const discard = () => run("Could not discard the draft", () => request(`/api/admin/content/${collection}`, { method: "DELETE" }))
+
+  const isPending = isBusy || isRefreshing
+  const editingItem = editing?.index != null ? (items[editing.index] as Item) : undefined
+  const deletingItem = deleting !== null ? (items[deleting] as Item | undefined) : undefined
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-2" role="tablist" aria-label="Collections">
+          {collectionIds.map((id) => (
+            <Button
+              key={id}
+              role="tab"
+              aria-selected={id === collection}
+              variant={id === collection ? "default" : "outline"}
+              size="sm"
+              onClick={() => setCollection(id)}
+            >
+              {collections[id].label}
+              {state[id].hasDraft && <span className="ml-2 text-xs opacity-70">(draft)</span>}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          Signed in as {user.role}
+          <AddressDisplay family={null} address={user.address} avatarSize={20} />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>{label}</CardTitle>
+            <CardDescription>
+              {hasDraft
+                ? canPublish(user.role)
+                  ? "You are editing an unpublished draft. Publish it to update the site."
+                  : "You are editing an unpublished draft. An admin has to publish it."
+                : "This is what the site shows. Changes are saved as a draft first."}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {hasDraft && (
+              <Button variant="outline" size="sm" onClick={discard} disabled={isPending}>
+                <Undo2 className="mr-2 h-4 w-4" />
+                Discard draft
+              </Button>
+            )}
+            {hasDraft && canPublish(user.role) && (
+              <Button size="sm" onClick={publish} disabled={isPending}>
+                {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                Publish
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setEditing({ index: null })} disabled={isPending}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No {label.toLowerCase()} yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {(items as Item[]).map((item, index) => {
+                const { title, description } = itemDetails(collection, item)
+                return (
+                  <li key={itemKey(collection, item)} className="flex items-center justify-between gap-4 py-3">
+                    <div className="min-w-0">
+                      <p className="font-medium">{title}</p>
+                      <p className="truncate text-sm text-muted-foreground">{description}</p>
+                    </div>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" disabled={isPending} aria-label={`Actions for ${title}`}>
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onSelect={() => setEditing({ index })}>
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem disabled={index === 0} onSelect={() => moveItem(index, -1)}>
+                          <ArrowUp className="mr-2 h-4 w-4" />
+                          Move up
+                        </DropdownMenuItem>
+                        <DropdownMenuItem disabled={index === items.length - 1} onSelect={() => moveItem(index, 1)}>
+                          <ArrowDown className="mr-2 h-4 w-4" />
+                          Move down
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem className="text-destructive" onSelect={() => setDeleting(index)}>
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {audit && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Audit log</CardTitle>
+            <CardDescription>Every draft, upload and publish, newest first.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {audit.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No changes yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {audit.map((entry, index) => (
+                  <li key={`${entry.at}-${index}`} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{actionLabels[entry.action]}</span>
+                      <span className="text-muted-foreground">{entry.summary}</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <AddressDisplay family={null} address={entry.address} avatarSize={16} />
+                      <span>{formatDate(locale, entry.at)}</span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl" closeLabel={dialog.close}>
+          <DialogHeader>
+            <DialogTitle>{editingItem ? `Edit ${itemDetails(collection, editingItem).title}` : `Add to ${label}`}</DialogTitle>
+            <DialogDescription>Saving updates the draft; the site changes once it is published.</DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <ItemForm
+              key={`${collection}-${editing.index ?? "new"}`}
+              collection={collection}
+              item={editingItem}
+              teamNames={teamNames}
+              onSubmit={saveItem}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={deletingItem !== undefined} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent closeLabel={dialog.close}>
+          <DialogHeader>
+            <DialogTitle>Delete {deletingItem && itemDetails(collection, deletingItem).title}?</DialogTitle>
+            <DialogDescription>It is removed from the draft; the site keeps it until the draft is published.</DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={deleteItem} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
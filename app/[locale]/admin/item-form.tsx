@@ -0,0 +1,302 @@
+"use client"
+
+import * as React from "react"
+import { Loader2, Plus, Trash2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { DialogFooter } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/hooks/use-toast"
+import { collections, type CmsProject, type CollectionId, type CollectionItems } from "@/lib/admin/collections"
+
+type FieldErrors = Record<string, string>
+
+interface FieldProps {
+  name: string
+  label: string
+  defaultValue?: string
+  errors: FieldErrors
+}
+
+function FieldError({ name, errors }: { name: string; errors: FieldErrors }) {
+  return errors[name] ? <p id={`${name}-error`} className="text-sm text-destructive">{errors[name]}</p> : null
+}
+
+function TextField({ name, label, defaultValue, errors, placeholder }: FieldProps & { placeholder?: string }) {
+  return (
+    <div className="space-y-1">
+      <label htmlFor={name} className="text-sm font-medium">{label}</label>
+      <Input
+        id={name}
+        name={name}
+        defaultValue={defaultValue}
+        placeholder={placeholder}
+        aria-invalid={Boolean(errors[name])}
+        aria-describedby={errors[name] ? `${name}-error` : undefined}
+      />
+      <FieldError name={name} errors={errors} />
+    </div>
+  )
+}
+
+function TextAreaField({ name, label, defaultValue, errors, rows = 4 }: FieldProps & { rows?: number }) {
+  return (
+    <div className="space-y-1">
+      <label htmlFor={name} className="text-sm font-medium">{label}</label>
+      <Textarea
+        id={name}
+        name={name}
+        rows={rows}
+        defaultValue={defaultValue}
+        aria-invalid={Boolean(errors[name])}
+        aria-describedby={errors[name] ? `${name}-error` : undefined}
+      />
+      <FieldError name={name} errors={errors} />
+    </div>
+  )
+}
+
+// An image URL that can also be filled by uploading a file
+function ImageField({ name, label, defaultValue = "", errors }: FieldProps) {
+  const [value, setValue] = React.useState(defaultValue)
+  const [isUploading, setIsUploading] = React.useState(false)
+  const fileInput = React.useRef<HTMLInputElement>(null)
+
+  const upload = async (file: File) => {
+    setIsUploading(true)
+    try {
+      const body = new FormData()
+      body.append("file", file)
+      const response = await fetch("/api/admin/uploads", { method: "POST", body })
+      const result = (await response.json()) as { url?: string; error?: string }
+      if (!response.ok || !result.url) throw new Error(result.error ?? "Upload failed")
+      setValue(result.url)
+    } catch (error) {
+      toast({ variant: "destructive", title: "Upload failed", description: error instanceof Error ? error.message : undefined })
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <label htmlFor={name} className="text-sm font-medium">{label}</label>
+      <div className="flex gap-2">
+        <Input
+          id={name}
+          name={name}
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          placeholder="/api/uploads/... or a path under public/"
+          aria-invalid={Boolean(errors[name])}
+          aria-describedby={errors[name] ? `${name}-error` : undefined}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => fileInput.current?.click()}
+          disabled={isUploading}
+          aria-label={`Upload ${label.toLowerCase()}`}
+        >
+          {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/png,image/jpeg,image/webp,image/gif"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0]
+            if (file) upload(file)
+            event.target.value = ""
+          }}
+        />
+      </div>
+      <FieldError name={name} errors={errors} />
+    </div>
+  )
+}
+
+const text = (data: FormData, name: string) => String(data.get(name) ?? "").trim()
+const optionalText = (data: FormData, name: string) => text(data, name) || undefined
+const list = (data: FormData, name: string) => text(data, name).split(",").map((entry) => entry.trim()).filter(Boolean)
+
+function ProjectFields({ project, teamNames, errors }: { project?: CmsProject; teamNames: string[]; errors: FieldErrors }) {
+  const [gallery, setGallery] = React.useState(() => (project?.gallery ?? []).map((image, index) => ({ id: index, ...image })))
+  const nextId = React.useRef(gallery.length)
+
+  return (
+    <>
+      <div className="grid gap-4 md:grid-cols-2">
+        <TextField name="title" label="Title" defaultValue={project?.title} errors={errors} />
+        <TextField name="slug" label="Slug" defaultValue={project?.slug} placeholder="my-project" errors={errors} />
+      </div>
+      <TextAreaField name="summary" label="Summary" defaultValue={project?.summary} rows={2} errors={errors} />
+      <div className="grid gap-4 md:grid-cols-2">
+        <ImageField name="cover.src" label="Cover image" defaultValue={project?.cover.src} errors={errors} />
+        <TextField name="cover.alt" label="Cover description" defaultValue={project?.cover.alt} errors={errors} />
+      </div>
+      <TextField name="tech" label="Tech stack (comma-separated)" defaultValue={project?.tech.join(", ")} errors={errors} />
+      <fieldset className="space-y-1">
+        <legend className="text-sm font-medium">Team</legend>
+        <div className="flex flex-wrap gap-4">
+          {teamNames.map((name) => (
+            <label key={name} className="flex items-center gap-2 text-sm">
+              <input type="checkbox" name="team" value={name} defaultChecked={project?.team.includes(name)} />
+              {name}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+      <div className="grid gap-4 md:grid-cols-2">
+        <TextField name="repoUrl" label="Repository URL" defaultValue={project?.repoUrl} errors={errors} />
+        <TextField name="demoUrl" label="Demo URL" defaultValue={project?.demoUrl} errors={errors} />
+      </div>
+      <fieldset className="grid gap-4 md:grid-cols-3">
+        <legend className="mb-1 text-sm font-medium">Contract (optional)</legend>
+        <div className="space-y-1">
+          <label htmlFor="contract.family" className="text-sm font-medium">Family</label>
+          <select
+            id="contract.family"
+            name="contract.family"
+            defaultValue={project?.contract?.family ?? "evm"}
+            className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+          >
+            <option value="evm">EVM</option>
+            <option value="solana">Solana</option>
+            <option value="cosmos">Cosmos</option>
+          </select>
+        </div>
+        <TextField name="contract.chainId" label="Chain" defaultValue={project?.contract?.chainId} placeholder="1" errors={errors} />
+        <TextField name="contract.address" label="Address" defaultValue={project?.contract?.address} errors={errors} />
+      </fieldset>
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium">Screenshots</legend>
+        {gallery.map((image, index) => (
+          <div key={image.id} className="flex items-end gap-2">
+            <div className="grid flex-1 gap-2 md:grid-cols-2">
+              <ImageField name={`gallery.${index}.src`} label="Image" defaultValue={image.src} errors={errors} />
+              <TextField name={`gallery.${index}.alt`} label="Description" defaultValue={image.alt} errors={errors} />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => setGallery((current) => current.filter(({ id }) => id !== image.id))}
+              aria-label="Remove screenshot"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setGallery((current) => [...current, { id: nextId.current++, src: "", alt: "" }])}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add screenshot
+        </Button>
+      </fieldset>
+      <TextAreaField name="body" label="Page text (MDX)" defaultValue={project?.body} rows={8} errors={errors} />
+    </>
+  )
+}
+
+function readProject(data: FormData): unknown {
+  const gallery: { src: string; alt: string }[] = []
+  for (let index = 0; data.has(`gallery.${index}.src`); index++) {
+    gallery.push({ src: text(data, `gallery.${index}.src`), alt: text(data, `gallery.${index}.alt`) })
+  }
+  const contractAddress = text(data, "contract.address")
+
+  return {
+    slug: text(data, "slug"),
+    title: text(data, "title"),
+    summary: text(data, "summary"),
+    cover: { src: text(data, "cover.src"), alt: text(data, "cover.alt") },
+    gallery,
+    tech: list(data, "tech"),
+    team: data.getAll("team").map(String),
+    repoUrl: optionalText(data, "repoUrl"),
+    demoUrl: optionalText(data, "demoUrl"),
+    contract: contractAddress
+      ? { family: text(data, "contract.family"), chainId: text(data, "contract.chainId"), address: contractAddress }
+      : undefined,
+    body: String(data.get("body") ?? ""),
+  }
+}
+
+interface ItemFormProps<C extends CollectionId> {
+  collection: C
+  item?: CollectionItems[C][number]
+  teamNames: string[]
+  onSubmit: (item: CollectionItems[C][number]) => Promise<void>
+  onCancel: () => void
+}
+
+// Create and edit form for one item, validated with the same schema the API uses
+export function ItemForm<C extends CollectionId>({ collection, item, teamNames, onSubmit, onCancel }: ItemFormProps<C>) {
+  const [errors, setErrors] = React.useState<FieldErrors>({})
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  const submit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const data = new FormData(event.currentTarget)
+    const values: unknown = collection === "projects"
+      ? readProject(data)
+      : collection === "team"
+        ? { name: text(data, "name"), role: text(data, "role"), image: text(data, "image") }
+        : { title: text(data, "title"), body: text(data, "body") }
+
+    const parsed = collections[collection].item.safeParse(values)
+    if (!parsed.success) {
+      setErrors(Object.fromEntries(parsed.error.issues.map((issue) => [issue.path.join("."), issue.message])))
+      return
+    }
+
+    setErrors({})
+    setIsSaving(true)
+    try {
+      await onSubmit(parsed.data as CollectionItems[C][number])
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={submit} noValidate className="space-y-4">
+      {collection === "projects" && (
+        <ProjectFields project={item as CmsProject | undefined} teamNames={teamNames} errors={errors} />
+      )}
+      {collection === "team" && (() => {
+        const member = item as CollectionItems["team"][number] | undefined
+        return (
+          <>
+            <TextField name="name" label="Name" defaultValue={member?.name} errors={errors} />
+            <TextField name="role" label="Role" defaultValue={member?.role} errors={errors} />
+            <ImageField name="image" label="Photo" defaultValue={member?.image} errors={errors} />
+          </>
+        )
+      })()}
+      {collection === "about" && (() => {
+        const block = item as CollectionItems["about"][number] | undefined
+        return (
+          <>
+            <TextField name="title" label="Title" defaultValue={block?.title} errors={errors} />
+            <TextAreaField name="body" label="Text" defaultValue={block?.body} errors={errors} />
+          </>
+        )
+      })()}
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save draft
+        </Button>
+      </DialogFooter>
+    </form>
+  )
+}
@@ -0,0 +1,48 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { readAudit } from '@/lib/admin/audit'
+import { canPublish, getAdminUser } from '@/lib/admin/roles'
+import { readCmsState } from '@/lib/admin/store'
+import { getServerSession } from '@/lib/auth/server'
+import { CONNECT_PATH } from '@/lib/auth/routes'
+import { localizePath, type Locale } from '@/lib/i18n'
+import { getMessages } from '@/lib/i18n/messages'
+import { AdminDashboard } from './admin-dashboard'
+
+export const metadata: Metadata = {
+  title: 'Content',
+  robots: { index: false },
+}
+
+export const dynamic = 'force-dynamic'
+
+// The middleware only checks the allowlist; the role decides what the dashboard offers
+export default async function AdminPage({ params }: { params: { locale: Locale } }) {
+  const user = getAdminUser(await getServerSession())
+  if (!user) {
+    const query = new URLSearchParams({ next: localizePath(params.locale, '/admin'), reason: 'not_allowlisted' })
+    redirect(`${localizePath(params.locale, CONNECT_PATH)}?${query}`)
+  }
+
+  const [state, audit] = await Promise.all([
+    readCmsState(),
+    canPublish(user.role) ? readAudit() : null,
+  ])
+
+  const { nav } = getMessages(params.locale)
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold">Content</h1>
+          <Link href={localizePath(params.locale, '/')} className="hover:underline">{nav.backToHome}</Link>
+        </div>
+      </header>
+      <main className="container mx-auto px-4 py-8">
+        <AdminDashboard user={user} state={state} audit={audit} />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import * as React from "react"
+import dynamic from "next/dynamic"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useI18n } from "@/hooks/use-i18n"
+import { useWallet } from "@/hooks/use-wallet"
+import type { AccessDenial } from "@/lib/auth/access"
+import { localizePath } from "@/lib/i18n"
+
+const MultiWalletConnect = dynamic(() => import("@/components/ui/multi-wallet-connect").then(mod => mod.MultiWalletConnect), { ssr: false })
+
+export function ConnectPrompt({ next, reason }: { next: string; reason: AccessDenial }) {
+  const router = useRouter()
+  const { locale, messages } = useI18n()
+  const { status, session } = useWallet()
+  const identityCount = session?.identities.length ?? 0
+  const baseline = React.useRef<number | null>(null)
+
+  // Head back once a new wallet is proven; middleware checks the route's rule again
+  React.useEffect(() => {
+    if (status === "restoring") return
+    if (baseline.current === null) {
+      baseline.current = identityCount
+    } else if (identityCount > baseline.current) {
+      router.replace(next)
+    }
+  }, [status, identityCount, next, router])
+
+  const copy = messages.connect[reason]
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>{copy.title}</CardTitle>
+        <CardDescription>{copy.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col items-center space-y-4">
+        <MultiWalletConnect />
+        <Link href={localizePath(locale, "/")} className="text-sm text-muted-foreground hover:underline">
+          {messages.nav.backToHome}
+        </Link>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,42 @@
+import type { Metadata } from 'next'
+import type { AccessDenial } from '@/lib/auth/access'
+import { localizePath, type Locale } from '@/lib/i18n'
+import { getMessages } from '@/lib/i18n/messages'
+import { ConnectPrompt } from './connect-prompt'
+
+interface ConnectPageProps {
+  params: { locale: Locale }
+  searchParams: Record<string, string | string[] | undefined>
+}
+
+export function generateMetadata({ params }: ConnectPageProps): Metadata {
+  return { title: getMessages(params.locale).connect.metaTitle, robots: { index: false } }
+}
+
+const reasons: AccessDenial[] = ['unauthenticated', 'wrong_family', 'not_allowlisted']
+
+// Stands in for this site's origin: only the path matters, and anything that resolves elsewhere is dropped
+const SITE_BASE = 'https://site.invalid'
+
+// Only same-site paths, so the redirect can't be pointed at another origin. Browsers read
+// `/\evil.com` and stray tabs or newlines the way the URL parser does, so the check goes through it.
+function safeNext(next: string | string[] | undefined, locale: Locale) {
+  const fallback = localizePath(locale, '/')
+  if (typeof next !== 'string' || !next.startsWith('/')) return fallback
+  try {
+    const url = new URL(next, SITE_BASE)
+    return url.origin === SITE_BASE ? `${url.pathname}${url.search}${url.hash}` : fallback
+  } catch {
+    return fallback
+  }
+}
+
+export default function ConnectPage({ params, searchParams }: ConnectPageProps) {
+  const reason = reasons.find((candidate) => candidate === searchParams.reason) ?? 'unauthenticated'
+
+  return (
+    <main className="min-h-screen bg-background text-foreground flex items-center justify-center px-4">
+      <ConnectPrompt next={safeNext(searchParams.next, params.locale)} reason={reason} />
+    </main>
+  )
+}
@@ -0,0 +1,74 @@
+import '../globals.css'
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { Inter } from 'next/font/google'
+import { CommandPalette } from "../components/command-palette"
+import { I18nProvider } from "../components/i18n-provider"
+import { SiteCommands } from "../components/site-commands"
+import { ThemeProvider } from "../components/theme-provider"
+import { WalletProvider } from "../components/wallet-provider"
+import { Toaster } from "@/components/ui/toaster"
+import { getContent } from "@/lib/content"
+import { isLocale, locales } from "@/lib/i18n"
+import { getMessages } from "@/lib/i18n/messages"
+import { getSiteUrl } from "@/lib/seo"
+import { paletteScript } from "@/lib/theme/palettes"
+
+const inter = Inter({ subsets: ['latin'] })
+
+// Any other first segment is a 404 before a page renders with a missing catalog
+export const dynamicParams = false
+
+export function generateStaticParams() {
+  return locales.map((locale) => ({ locale }))
+}
+
+// Defaults for every page; pages add their own title, canonical link and social cards
+export function generateMetadata(): Metadata {
+  const { site } = getContent()
+  return {
+    metadataBase: getSiteUrl(),
+    title: {
+      default: site.title,
+      template: `%s | ${site.name}`,
+    },
+    description: site.description,
+    applicationName: site.name,
+  }
+}
+
+// Middleware prefixes every page path with a locale, so this is the root layout
+export default function RootLayout({
+  children,
+  params,
+}: {
+  children: React.ReactNode
+  params: { locale: string }
+}) {
+  if (!isLocale(params.locale)) notFound()
+  const { projects, team } = getContent()
+
+  return (
+    // The theme scripts set the class and data-palette before React hydrates
+    <html lang={params.locale} suppressHydrationWarning>
+      <head>
+        <script dangerouslySetInnerHTML={{ __html: paletteScript }} />
+      </head>
+      <body className={inter.className}>
+        <I18nProvider locale={params.locale} messages={getMessages(params.locale)}>
+          <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
+            <WalletProvider>
+              {children}
+              <SiteCommands
+                projects={projects.map(({ slug, title, tech }) => ({ slug, title, tech }))}
+                team={team.map(({ name, role }) => ({ name, role }))}
+              />
+              <CommandPalette />
+            </WalletProvider>
+            <Toaster />
+          </ThemeProvider>
+        </I18nProvider>
+      </body>
+    </html>
+  )
+}
@@ -0,0 +1,15 @@
+import { getContent } from '@/lib/content'
+import { OG_IMAGE_SIZE, renderOgImage } from '@/lib/seo/og-image'
+
+export const size = OG_IMAGE_SIZE
+export const contentType = 'image/png'
+
+export function generateImageMetadata() {
+  return [{ id: 'default', alt: getContent().site.title, size, contentType }]
+}
+
+// Also used for Twitter cards, which fall back to og:image
+export default function Image() {
+  const { site } = getContent()
+  return renderOgImage({ siteName: site.name, title: site.title, description: site.description })
+}
@@ -0,0 +1,47 @@
+import type { Metadata } from "next"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { JsonLd } from "@/components/ui/json-ld"
+import { TokenGate } from "@/components/ui/token-gate"
+import { getContent } from "@/lib/content"
+import type { Locale } from "@/lib/i18n"
+import { getMessages } from "@/lib/i18n/messages"
+import { organizationJsonLd, pageMetadata } from "@/lib/seo"
+import { Home } from "../components/home"
+
+interface PageProps {
+  params: { locale: Locale }
+}
+
+export function generateMetadata({ params }: PageProps): Metadata {
+  const { site } = getContent()
+  return pageMetadata(site, { locale: params.locale, path: "/", title: { absolute: site.title }, description: site.description })
+}
+
+// Gated blocks render here on the server and are handed to the client page as props
+export default function Page({ params }: PageProps) {
+  const { home } = getMessages(params.locale)
+  const content = getContent()
+
+  return (
+    <>
+      <JsonLd data={organizationJsonLd(content)} />
+      <Home
+        content={content}
+        membersContent={
+          <TokenGate gate="usdc-holders" locale={params.locale} teaser={home.membersTeaser}>
+            <Card>
+              <CardHeader>
+                <CardTitle>{home.membersTitle}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p>
+                  {home.membersBody}
+                </p>
+              </CardContent>
+            </Card>
+          </TokenGate>
+        }
+      />
+    </>
+  )
+}
@@ -0,0 +1,18 @@
+import { getContent } from '@/lib/content'
+import { OG_IMAGE_SIZE, renderOgImage } from '@/lib/seo/og-image'
+
+export const size = OG_IMAGE_SIZE
+export const contentType = 'image/png'
+
+const getProject = (slug: string) => getContent().projects.find((project) => project.slug === slug)
+
+export function generateImageMetadata({ params }: { params: { slug: string } }) {
+  const project = getProject(params.slug)
+  return project ? [{ id: 'default', alt: project.title, size, contentType }] : []
+}
+
+export default function Image({ params }: { params: { slug: string } }) {
+  const { site } = getContent()
+  const project = getProject(params.slug)
+  return renderOgImage({ siteName: site.name, title: project?.title ?? site.title, description: project?.summary })
+}
@@ -0,0 +1,151 @@
+import type { Metadata } from 'next'
+import Image from 'next/image'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { MDXRemote } from 'next-mdx-remote/rsc'
+import { ExternalLink, Github } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { AddressDisplay } from "@/components/ui/address-display"
+import { mdxComponents } from "@/components/ui/mdx-components"
+import { ProjectGallery } from "@/components/ui/project-gallery"
+import { getSupportedChain } from '@/lib/chains'
+import { getContent, getProjectBody } from '@/lib/content'
+import { interpolate, localizePath, type Locale } from '@/lib/i18n'
+import { getMessages } from '@/lib/i18n/messages'
+import { pageMetadata } from '@/lib/seo'
+
+interface ProjectPageProps {
+  params: { locale: Locale; slug: string }
+}
+
+// Projects published from the admin CMS after the build are rendered on first visit
+export function generateStaticParams() {
+  return getContent().projects.map(({ slug }) => ({ slug }))
+}
+
+function getProject(slug: string) {
+  return getContent().projects.find((project) => project.slug === slug)
+}
+
+export function generateMetadata({ params }: ProjectPageProps): Metadata {
+  const project = getProject(params.slug)
+  if (!project) return {}
+  return pageMetadata(getContent().site, {
+    locale: params.locale,
+    path: `/projects/${project.slug}`,
+    title: project.title,
+    description: project.summary,
+    type: 'article',
+  })
+}
+
+export default function ProjectPage({ params }: ProjectPageProps) {
+  const project = getProject(params.slug)
+  if (!project) notFound()
+
+  const { team } = getContent()
+  const { project: copy } = getMessages(params.locale)
+  const members = team.filter((member) => project.team.includes(member.name))
+  const body = getProjectBody(project.slug)
+  const contractChain = project.contract && getSupportedChain(project.contract.family, project.contract.chainId)
+  const contractUrl = project.contract && contractChain?.addressExplorer?.(project.contract.address)
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Link href={`${localizePath(params.locale, '/')}#projects`} className="hover:underline">{copy.backToProjects}</Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-12">
+        <section className="space-y-6">
+          <div className="relative w-full h-64 md:h-96">
+            <Image
+              src={project.cover.src}
+              alt={project.cover.alt}
+              fill
+              priority
+              style={{ objectFit: "cover" }}
+              className="rounded-lg"
+            />
+          </div>
+          <div className="space-y-4">
+            <h1 className="text-4xl font-bold">{project.title}</h1>
+            <p className="text-lg text-muted-foreground">{project.summary}</p>
+            {project.tech.length > 0 && (
+              <ul className="flex flex-wrap gap-2" aria-label={copy.techStack}>
+                {project.tech.map((tech) => (
+                  <li key={tech} className="rounded-full border px-3 py-1 text-sm">{tech}</li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {project.repoUrl && (
+                <Button variant="outline" asChild>
+                  <a href={project.repoUrl} target="_blank" rel="noopener noreferrer">
+                    <Github className="mr-2 h-4 w-4" /> {copy.repository}
+                  </a>
+                </Button>
+              )}
+              {project.demoUrl && (
+                <Button asChild>
+                  <a href={project.demoUrl} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="mr-2 h-4 w-4" /> {copy.liveDemo}
+                  </a>
+                </Button>
+              )}
+            </div>
+            {project.contract && (
+              <p className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">
+                  {interpolate(copy.contractOn, { chain: contractChain?.name ?? project.contract.chainId })}
+                </span>
+                <AddressDisplay family={project.contract.family} address={project.contract.address} />
+                {contractUrl && (
+                  <a href={contractUrl} target="_blank" rel="noopener noreferrer" className="underline underline-offset-4">
+                    {copy.viewInExplorer}
+                  </a>
+                )}
+              </p>
+            )}
+          </div>
+        </section>
+
+        {body && (
+          <article className="max-w-3xl">
+            {/* CMS editors write these bodies, so expressions like {process.env.X} must never run */}
+            <MDXRemote source={body} components={mdxComponents} options={{ blockJS: true }} />
+          </article>
+        )}
+
+        {project.gallery.length > 0 && (
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">{copy.screenshots}</h2>
+            <ProjectGallery images={project.gallery} />
+          </section>
+        )}
+
+        {members.length > 0 && (
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">{copy.team}</h2>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {members.map((member) => (
+                <Card key={member.name}>
+                  <CardContent className="pt-6">
+                    <div className="relative w-full h-32 mb-4">
+                      <Image src={member.image} alt={member.name} fill style={{ objectFit: "cover" }} className="rounded-lg" />
+                    </div>
+                    <h3 className="font-semibold text-center">{member.name}</h3>
+                    <p className="text-sm text-center text-muted-foreground">{member.role}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import { revalidatePath } from 'next/cache'
+import { NextResponse, type NextRequest } from 'next/server'
+import { requireAdminUser } from '@/lib/admin/auth'
+import { recordAudit } from '@/lib/admin/audit'
+import { collections, isCollectionId } from '@/lib/admin/collections'
+import { publishCollection, readCollection } from '@/lib/admin/store'
+import { ContentError } from '@/lib/content'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest, { params }: { params: { collection: string } }) {
+  const user = await requireAdminUser(request, { publish: true })
+  if (user instanceof NextResponse) return user
+  const { collection } = params
+  if (!isCollectionId(collection)) return NextResponse.json({ error: 'Unknown collection' }, { status: 404 })
+
+  try {
+    await publishCollection(collection)
+  } catch (error) {
+    if (error instanceof ContentError) return NextResponse.json({ error: error.message }, { status: 400 })
+    throw error
+  }
+
+  // Every page reads content/ through the root layout
+  revalidatePath('/', 'layout')
+  await recordAudit(user, { action: 'publish', collection, summary: `${collections[collection].label}: published` })
+  return NextResponse.json(await readCollection(collection))
+}
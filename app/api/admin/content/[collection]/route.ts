@@ -0,0 +1,54 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { requireAdminUser } from '@/lib/admin/auth'
+import { recordAudit } from '@/lib/admin/audit'
+import { collections, isCollectionId, parseCollection } from '@/lib/admin/collections'
+import { describeChanges, discardDraft, readCollection, saveDraft } from '@/lib/admin/store'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: { collection: string }
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = await requireAdminUser(request)
+  if (user instanceof NextResponse) return user
+  if (!isCollectionId(params.collection)) return NextResponse.json({ error: 'Unknown collection' }, { status: 404 })
+
+  return NextResponse.json(await readCollection(params.collection))
+}
+
+// Replaces the collection's draft; creating, editing, reordering and deleting all go through here
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const user = await requireAdminUser(request)
+  if (user instanceof NextResponse) return user
+  const { collection } = params
+  if (!isCollectionId(collection)) return NextResponse.json({ error: 'Unknown collection' }, { status: 404 })
+
+  const body = (await request.json().catch(() => null)) as { items?: unknown } | null
+  const parsed = parseCollection(collection, body?.items)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid content', issues: parsed.error.issues }, { status: 400 })
+  }
+
+  const { items: before } = await readCollection(collection)
+  await saveDraft(collection, parsed.data)
+  await recordAudit(user, {
+    action: 'save_draft',
+    collection,
+    summary: `${collections[collection].label}: ${describeChanges(collection, before, parsed.data)}`,
+  })
+  return NextResponse.json(await readCollection(collection))
+}
+
+// Discards the draft, going back to the published content
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = await requireAdminUser(request)
+  if (user instanceof NextResponse) return user
+  const { collection } = params
+  if (!isCollectionId(collection)) return NextResponse.json({ error: 'Unknown collection' }, { status: 404 })
+
+  await discardDraft(collection)
+  await recordAudit(user, { action: 'discard_draft', collection, summary: `${collections[collection].label}: discarded draft` })
+  return NextResponse.json(await readCollection(collection))
+}
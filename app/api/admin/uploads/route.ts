@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { requireAdminUser } from '@/lib/admin/auth'
+import { recordAudit } from '@/lib/admin/audit'
+import { saveUpload, UploadError } from '@/lib/admin/uploads'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  const user = await requireAdminUser(request)
+  if (user instanceof NextResponse) return user
+
+  const file = (await request.formData().catch(() => null))?.get('file')
+  if (!(file instanceof File)) return NextResponse.json({ error: 'No file uploaded' }, { status: 400 })
+
+  try {
+    const url = await saveUpload(file)
+    await recordAudit(user, { action: 'upload', summary: `uploaded ${file.name} as ${url}` })
+    return NextResponse.json({ url }, { status: 201 })
+  } catch (error) {
+    if (error instanceof UploadError) return NextResponse.json({ error: error.message }, { status: 400 })
+    throw error
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { generateSiweNonce } from 'viem/siwe'
+import { NONCE_COOKIE, NONCE_MAX_AGE, sessionCookieOptions, signToken } from '@/lib/auth/session'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const nonce = generateSiweNonce()
+  const token = await signToken({ nonce, expiresAt: Date.now() + NONCE_MAX_AGE * 1000 })
+
+  const response = NextResponse.json({ nonce })
+  response.cookies.set(NONCE_COOKIE, token, sessionCookieOptions(NONCE_MAX_AGE))
+  return response
+}
@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import {
+  SESSION_COOKIE,
+  createSession,
+  sessionCookieOptions,
+  signToken,
+  verifyToken,
+  type WalletSession,
+} from '@/lib/auth/session'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  const session = await verifyToken<WalletSession>(request.cookies.get(SESSION_COOKIE)?.value)
+  return NextResponse.json({ session })
+}
+
+// Signs out of one wallet with `?walletType=`, or of every identity without it
+export async function DELETE(request: NextRequest) {
+  const walletType = request.nextUrl.searchParams.get('walletType')
+  const existing = await verifyToken<WalletSession>(request.cookies.get(SESSION_COOKIE)?.value)
+  const identities = walletType
+    ? (existing?.identities ?? []).filter((identity) => identity.walletType !== walletType)
+    : []
+
+  if (!existing || identities.length === 0) {
+    const response = NextResponse.json({ session: null })
+    response.cookies.delete(SESSION_COOKIE)
+    return response
+  }
+
+  const session = createSession(identities, existing)
+  const maxAge = Math.floor((session.expiresAt - Date.now()) / 1000)
+  const response = NextResponse.json({ session })
+  response.cookies.set(SESSION_COOKIE, await signToken(session), sessionCookieOptions(maxAge))
+  return response
+}
@@ -0,0 +1,74 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import {
+  NONCE_COOKIE,
+  NONCE_MAX_AGE,
+  SESSION_COOKIE,
+  createSession,
+  sessionCookieOptions,
+  signToken,
+  verifyToken,
+  type WalletSession,
+} from '@/lib/auth/session'
+import { consumeNonce } from '@/lib/auth/nonces'
+import { verifySignIn, type SignInProof } from '@/lib/auth/verify'
+
+const families = ['evm', 'solana', 'cosmos']
+
+function isSignInProof(body: unknown): body is SignInProof {
+  if (!body || typeof body !== 'object') return false
+  const proof = body as Record<string, unknown>
+  return (
+    typeof proof.walletType === 'string' &&
+    typeof proof.family === 'string' &&
+    families.includes(proof.family) &&
+    typeof proof.address === 'string' &&
+    typeof proof.message === 'string' &&
+    typeof proof.signature === 'string' &&
+    (proof.publicKey === undefined || typeof proof.publicKey === 'string')
+  )
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null)
+  if (!isSignInProof(body)) {
+    return NextResponse.json({ error: 'Invalid sign-in request' }, { status: 400 })
+  }
+
+  const nonce = await verifyToken<{ nonce: string; expiresAt: number }>(request.cookies.get(NONCE_COOKIE)?.value)
+  if (!nonce) {
+    return NextResponse.json({ error: 'Sign-in challenge expired, please try again' }, { status: 401 })
+  }
+
+  const result = await verifySignIn(body, {
+    domain: request.nextUrl.host,
+    nonce: nonce.nonce,
+    issuedAfter: nonce.expiresAt - NONCE_MAX_AGE * 1000,
+  })
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: 401 })
+  }
+  // The nonce cookie could be sent again, so its use is recorded here as well
+  if (!consumeNonce(nonce.nonce, nonce.expiresAt)) {
+    return NextResponse.json({ error: 'Sign-in challenge already used, please try again' }, { status: 401 })
+  }
+
+  // Add to the identities already proven in this browser instead of replacing them
+  const existing = await verifyToken<WalletSession>(request.cookies.get(SESSION_COOKIE)?.value)
+  const identity = {
+    address: result.message.address,
+    walletType: body.walletType,
+    family: body.family,
+    chainId: result.message.chainId,
+    verifiedAt: Date.now(),
+  }
+  const others = (existing?.identities ?? []).filter((current) => (
+    current.walletType !== identity.walletType || current.address.toLowerCase() !== identity.address.toLowerCase()
+  ))
+  const session = createSession([...others, identity], existing)
+  const maxAge = Math.floor((session.expiresAt - Date.now()) / 1000)
+
+  const response = NextResponse.json({ session })
+  response.cookies.set(SESSION_COOKIE, await signToken(session), sessionCookieOptions(maxAge))
+  response.cookies.delete(NONCE_COOKIE)
+  return response
+}
@@ -0,0 +1,78 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { findIdentity, SESSION_COOKIE, verifyToken, type WalletSession } from '@/lib/auth/session'
+import { getContactNotifier } from '@/lib/contact/notifiers'
+import { rateLimit } from '@/lib/contact/rate-limit'
+import { contactFormSchema, type ContactSubmission } from '@/lib/contact/schema'
+import { saveSubmission } from '@/lib/contact/store'
+
+export const dynamic = 'force-dynamic'
+
+const RATE_LIMIT = { limit: 5, windowMs: 10 * 60 * 1000 }
+
+// Proxies in front of the app that append to X-Forwarded-For. Without any, the
+// header comes straight from the client and can't be trusted.
+const TRUSTED_PROXY_COUNT = Number.parseInt(process.env.TRUSTED_PROXY_COUNT || '0', 10) || 0
+
+/**
+ * The platform's client IP where it has one (Vercel). Otherwise the address the
+ * outermost trusted proxy saw, counted from the right of X-Forwarded-For: every
+ * proxy appends the address it received from, and anything further left is
+ * whatever the client sent. Clients without either share one bucket.
+ */
+function clientIp(request: NextRequest) {
+  if (request.ip) return request.ip
+  if (TRUSTED_PROXY_COUNT === 0) return 'unknown'
+  const hops = request.headers.get('x-forwarded-for')?.split(',').map((hop) => hop.trim()) ?? []
+  return hops[hops.length - TRUSTED_PROXY_COUNT] || 'unknown'
+}
+
+export async function POST(request: NextRequest) {
+  const limited = rateLimit(`contact:${clientIp(request)}`, RATE_LIMIT)
+  if (!limited.ok) {
+    return NextResponse.json(
+      { error: 'Too many messages, please try again later' },
+      { status: 429, headers: { 'Retry-After': String(limited.retryAfter) } },
+    )
+  }
+
+  const parsed = contactFormSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Please check the highlighted fields', fieldErrors: parsed.error.flatten().fieldErrors },
+      { status: 400 },
+    )
+  }
+
+  const { name, email, message, website, wallet } = parsed.data
+  // Bots get the same answer as people, so they don't learn to skip the honeypot
+  if (website) return NextResponse.json({ ok: true }, { status: 201 })
+
+  // Only addresses the session has verified are attached
+  const session = wallet ? await verifyToken<WalletSession>(request.cookies.get(SESSION_COOKIE)?.value) : null
+  const identity = wallet ? findIdentity(session, wallet.walletType, wallet.address) : undefined
+
+  const submission: ContactSubmission = {
+    id: crypto.randomUUID(),
+    name,
+    email,
+    message,
+    wallet: identity ? { address: identity.address, family: identity.family } : undefined,
+    receivedAt: new Date().toISOString(),
+  }
+
+  try {
+    await saveSubmission(submission)
+  } catch (error) {
+    console.error('Failed to store contact submission:', error)
+    return NextResponse.json({ error: 'Could not send your message, please try again' }, { status: 500 })
+  }
+
+  // The submission is already stored, so a failed notification doesn't fail the request
+  try {
+    await getContactNotifier()?.notify(submission)
+  } catch (error) {
+    console.error(`Failed to send contact notification for ${submission.id}:`, error)
+  }
+
+  return NextResponse.json({ ok: true }, { status: 201 })
+}
@@ -0,0 +1,19 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { readUpload } from '@/lib/admin/uploads'
+
+export const dynamic = 'force-dynamic'
+
+// Serves images uploaded through the admin CMS; names are random, so they never change
+export async function GET(_request: NextRequest, { params }: { params: { file: string } }) {
+  const upload = await readUpload(params.file)
+  if (!upload) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+  return new NextResponse(upload.data, {
+    headers: {
+      'Content-Type': upload.type,
+      // Browsers must take the checked image type as given rather than sniff the bytes for another
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  })
+}
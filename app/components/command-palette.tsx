@@ -0,0 +1,159 @@
+"use client"
+
+import * as React from "react"
+import { Search } from "lucide-react"
+
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { useCommands } from "@/hooks/use-commands"
+import { useI18n } from "@/hooks/use-i18n"
+import { searchCommands, type Command } from "@/lib/commands"
+import { cn } from "@/lib/utils"
+
+// Command ids are registry keys and may contain spaces, so DOM ids use the position in the results
+const optionId = (index: number) => `command-option-${index}`
+
+/**
+ * Cmd/Ctrl+K opens a searchable list of every registered command. Arrow keys
+ * move through the results across groups, Enter runs one and Escape closes.
+ */
+export function CommandPalette() {
+  const [open, setOpen] = React.useState(false)
+  const [query, setQuery] = React.useState("")
+  const [activeIndex, setActiveIndex] = React.useState(0)
+  const pending = React.useRef<Command | null>(null)
+  const commands = useCommands()
+  const { messages: { commands: copy, dialog } } = useI18n()
+
+  const sections = React.useMemo(() => searchCommands(commands, query), [commands, query])
+  const results = sections.flatMap((section) => section.commands)
+  const activeResult = Math.min(activeIndex, results.length - 1)
+  const active = results[activeResult]
+
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== "k" || !(event.metaKey || event.ctrlKey)) return
+      event.preventDefault()
+      setOpen((current) => !current)
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [])
+
+  React.useEffect(() => {
+    if (!active) return
+    document.getElementById(optionId(activeResult))?.scrollIntoView({ block: "nearest" })
+  }, [active, activeResult])
+
+  const onOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (next) return
+    setQuery("")
+    setActiveIndex(0)
+  }
+
+  const select = (command: Command) => {
+    pending.current = command
+    onOpenChange(false)
+  }
+
+  // Commands run once focus has been handed back, so one that moves focus or navigates keeps it
+  const onCloseAutoFocus = (event: Event) => {
+    const command = pending.current
+    pending.current = null
+    if (!command) return
+    event.preventDefault()
+    Promise.resolve(command.run()).catch((error) => console.error(`Command ${command.id} failed:`, error))
+  }
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (results.length === 0) return
+    const current = Math.min(activeIndex, results.length - 1)
+    if (event.key === "ArrowDown") {
+      event.preventDefault()
+      setActiveIndex((current + 1) % results.length)
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault()
+      setActiveIndex((current - 1 + results.length) % results.length)
+    } else if (event.key === "Home" && event.ctrlKey) {
+      event.preventDefault()
+      setActiveIndex(0)
+    } else if (event.key === "End" && event.ctrlKey) {
+      event.preventDefault()
+      setActiveIndex(results.length - 1)
+    } else if (event.key === "Enter" && active) {
+      event.preventDefault()
+      select(active)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="gap-0 overflow-hidden p-0"
+        closeLabel={dialog.close}
+        aria-describedby={undefined}
+        onCloseAutoFocus={onCloseAutoFocus}
+      >
+        <DialogTitle className="sr-only">{copy.title}</DialogTitle>
+        <div className="flex items-center border-b px-3">
+          <Search className="mr-2 h-4 w-4 shrink-0 opacity-50" />
+          <input
+            role="combobox"
+            aria-expanded={results.length > 0}
+            aria-controls="command-results"
+            aria-activedescendant={active ? optionId(activeResult) : undefined}
+            aria-autocomplete="list"
+            aria-label={copy.title}
+            autoComplete="off"
+            spellCheck={false}
+            className="flex h-11 w-full bg-transparent py-3 pr-8 text-sm outline-none placeholder:text-muted-foreground"
+            placeholder={copy.placeholder}
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value)
+              setActiveIndex(0)
+            }}
+            onKeyDown={onKeyDown}
+          />
+        </div>
+        {results.length === 0 && (
+          <p className="py-6 text-center text-sm text-muted-foreground">{copy.empty}</p>
+        )}
+        <div id="command-results" role="listbox" aria-label={copy.title} className="max-h-80 overflow-y-auto p-1 empty:hidden">
+          {sections.map(({ group, commands: groupCommands }) => (
+            <div key={group} role="group" aria-labelledby={`command-group-${group}`} className="py-1">
+              <div id={`command-group-${group}`} className="px-2 py-1.5 text-xs font-medium text-muted-foreground">
+                {copy.groups[group]}
+              </div>
+              {groupCommands.map((command) => {
+                const Icon = command.icon
+                const index = results.indexOf(command)
+                const isActive = command === active
+                return (
+                  <div
+                    key={command.id}
+                    id={optionId(index)}
+                    role="option"
+                    aria-selected={isActive}
+                    className={cn(
+                      "flex cursor-default select-none items-center rounded-sm px-2 py-1.5 text-sm",
+                      isActive && "bg-accent text-accent-foreground",
+                    )}
+                    onMouseMove={() => setActiveIndex(index)}
+                    onClick={() => select(command)}
+                  >
+                    {Icon && <Icon className="mr-2 h-4 w-4 shrink-0" />}
+                    <span className="truncate">{command.label}</span>
+                    {command.hint && (
+                      <span className="ml-auto truncate pl-4 text-xs text-muted-foreground">{command.hint}</span>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
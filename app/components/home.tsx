@@ -0,0 +1,202 @@
+'use client'
+
+import { useRef } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ContactForm } from "@/components/ui/contact-form"
+import { Mail } from "lucide-react"
+import Link from "next/link"
+import Image from "next/image"
+import { motion, useInView } from "framer-motion"
+import dynamic from 'next/dynamic'
+import { useI18n } from '@/hooks/use-i18n'
+import type { SiteContent } from '@/lib/content'
+import { localizePath } from '@/lib/i18n'
+import { cn } from '@/lib/utils'
+import { DesktopNav, MobileNav } from './site-nav'
+
+const ThemeMenu = dynamic(() => import("./theme-menu").then(mod => mod.ThemeMenu), { ssr: false })
+const LanguageSwitcher = dynamic(() => import("./language-switcher").then(mod => mod.LanguageSwitcher), { ssr: false })
+const MultiWalletConnect = dynamic(() => import("@/components/ui/multi-wallet-connect").then(mod => mod.MultiWalletConnect), { ssr: false })
+
+const fadeIn = {
+  initial: { opacity: 0, y: 20 },
+  animate: { 
+    opacity: 1, 
+    y: 0,
+    transition: { duration: 0.5 }
+  }
+}
+
+const staggerChildren = {
+  animate: {
+    transition: {
+      staggerChildren: 0.1
+    }
+  }
+}
+
+function AnimatedSection({ children, className, id }: { children: React.ReactNode, className?: string, id?: string }) {
+  const ref = useRef(null)
+  const isInView = useInView(ref, { once: true, amount: 0.3 })
+
+  return (
+    <motion.section
+      ref={ref}
+      initial="initial"
+      animate={isInView ? "animate" : "initial"}
+      variants={fadeIn}
+      className={cn("focus:outline-none", className)}
+      id={id}
+      // Focusable so a section picked from a menu can take focus
+      tabIndex={-1}
+    >
+      {children}
+    </motion.section>
+  )
+}
+
+interface HomeProps {
+  content: SiteContent
+  // Rendered on the server, so it can hold token-gated content
+  membersContent: React.ReactNode
+}
+
+export function Home({ content, membersContent }: HomeProps) {
+  const { site, projects, about, team, contact } = content
+  const { locale, messages } = useI18n()
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <motion.header 
+        className="border-b"
+        initial={{ opacity: 0, y: -50 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold">{site.name}</h1>
+          <div className="hidden md:flex items-center space-x-4">
+            <DesktopNav />
+            <MultiWalletConnect />
+            <LanguageSwitcher />
+            <ThemeMenu />
+          </div>
+          <div className="md:hidden flex items-center space-x-2">
+            <MultiWalletConnect />
+            <LanguageSwitcher />
+            <ThemeMenu />
+            <MobileNav />
+          </div>
+        </div>
+      </motion.header>
+
+      <main className="container mx-auto px-4 py-8 space-y-16">
+        <AnimatedSection id="projects" className="space-y-8">
+          <h2 className="text-3xl font-bold text-center">{messages.home.sections.projects}</h2>
+          <motion.div className="grid md:grid-cols-2 gap-8" variants={staggerChildren}>
+            {projects.map((project) => (
+              <motion.div key={project.slug} variants={fadeIn}>
+                <Link href={localizePath(locale, `/projects/${project.slug}`)} className="block h-full rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring">
+                  <Card className="h-full transition-colors hover:bg-accent">
+                    <div className="relative w-full h-48">
+                      <Image
+                        src={project.cover.src}
+                        alt={project.cover.alt}
+                        fill
+                        style={{ objectFit: "cover" }}
+                        className="rounded-t-lg"
+                      />
+                    </div>
+                    <CardHeader>
+                      <CardTitle>{project.title}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p>
+                        {project.summary}
+                      </p>
+                    </CardContent>
+                  </Card>
+                </Link>
+              </motion.div>
+            ))}
+          </motion.div>
+        </AnimatedSection>
+
+        <AnimatedSection id="about" className="space-y-8">
+          <h2 className="text-3xl font-bold text-center">{messages.home.sections.about}</h2>
+          <motion.div className="grid md:grid-cols-2 gap-8" variants={staggerChildren}>
+            {about.map((block) => (
+              <motion.div key={block.title} variants={fadeIn}>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{block.title}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p>
+                      {block.body}
+                    </p>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            ))}
+          </motion.div>
+        </AnimatedSection>
+
+        <AnimatedSection id="team" className="space-y-8">
+          <h2 className="text-3xl font-bold text-center">{messages.home.sections.team}</h2>
+          <motion.div className="grid md:grid-cols-2 gap-8" variants={staggerChildren}>
+            {team.map((member) => (
+              <motion.div key={member.name} variants={fadeIn}>
+                <Card>
+                  <CardContent>
+                    <div className="relative w-full h-48 mb-4">
+                      <Image
+                        src={member.image}
+                        alt={member.name}
+                        fill
+                        style={{ objectFit: "cover" }}
+                        className="rounded-t-lg"
+                      />
+                    </div>
+                    <h3 className="text-xl font-semibold text-center">{member.name}</h3>
+                    <p className="text-center">{member.role}</p>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            ))}
+          </motion.div>
+        </AnimatedSection>
+
+        <AnimatedSection id="members" className="space-y-8">
+          <h2 className="text-3xl font-bold text-center">{messages.home.sections.members}</h2>
+          {membersContent}
+        </AnimatedSection>
+
+        <AnimatedSection id="contact" className="space-y-8">
+          <h2 className="text-3xl font-bold text-center">{messages.home.sections.contact}</h2>
+          <motion.div className="flex flex-col items-center space-y-4" variants={fadeIn}>
+            <ContactForm />
+            <p className="text-sm text-muted-foreground">
+              {messages.home.emailUs}{" "}
+              <Link href={`mailto:${contact.email}`} className="inline-flex items-center hover:underline">
+                <Mail className="mr-1 h-4 w-4" />
+                {contact.email}
+              </Link>
+            </p>
+          </motion.div>
+        </AnimatedSection>
+      </main>
+
+      <motion.footer 
+        className="border-t mt-16"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.5, duration: 0.5 }}
+      >
+        <div className="container mx-auto px-4 py-6 text-center">
+          <p>&copy; {site.copyrightYear} {site.copyright}. {messages.home.rightsReserved}</p>
+        </div>
+      </motion.footer>
+    </div>
+  )
+}
\ No newline at end of file
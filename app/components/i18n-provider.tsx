@@ -0,0 +1,17 @@
+"use client"
+
+import * as React from "react"
+import type { Locale, Messages } from "@/lib/i18n"
+
+export interface I18nContextValue {
+  locale: Locale
+  messages: Messages
+}
+
+export const I18nContext = React.createContext<I18nContextValue | null>(null)
+
+// The layout picks the catalog on the server and hands it down
+export function I18nProvider({ locale, messages, children }: I18nContextValue & { children: React.ReactNode }) {
+  const value = React.useMemo(() => ({ locale, messages }), [locale, messages])
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
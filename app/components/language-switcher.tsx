@@ -0,0 +1,40 @@
+"use client"
+
+import * as React from "react"
+import { Languages } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useChangeLocale } from "@/hooks/use-change-locale"
+import { useI18n } from "@/hooks/use-i18n"
+import { localeNames, locales } from "@/lib/i18n"
+
+export function LanguageSwitcher() {
+  const { locale, messages } = useI18n()
+  const changeLocale = useChangeLocale()
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" aria-label={messages.settings.changeLanguage}>
+          <Languages className="h-[1.2rem] w-[1.2rem]" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup value={locale} onValueChange={changeLocale}>
+          {locales.map((option) => (
+            <DropdownMenuRadioItem key={option} value={option} lang={option}>
+              {localeNames[option]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
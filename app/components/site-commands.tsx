@@ -0,0 +1,247 @@
+"use client"
+
+import * as React from "react"
+import { useRouter } from "next/navigation"
+import { useTheme } from "next-themes"
+import {
+  Copy,
+  ExternalLink,
+  FileText,
+  Hash,
+  Languages,
+  Link2,
+  LogOut,
+  Palette,
+  SunMoon,
+  User,
+  Wallet,
+} from "lucide-react"
+
+import { useWalletErrorToast } from "@/components/ui/wallet-error-toast"
+import { useChangeLocale } from "@/hooks/use-change-locale"
+import { useRegisterCommands } from "@/hooks/use-commands"
+import { useI18n } from "@/hooks/use-i18n"
+import { usePalette } from "@/hooks/use-palette"
+import { toast } from "@/hooks/use-toast"
+import { useWallet } from "@/hooks/use-wallet"
+import { getSupportedChains } from "@/lib/chains"
+import type { Command } from "@/lib/commands"
+import type { Project, TeamMember } from "@/lib/content"
+import { interpolate, localeNames, localizePath, locales } from "@/lib/i18n"
+import { focusSection, isNavGroup, navigation, type NavItem, type NavLink } from "@/lib/navigation"
+import { palettes } from "@/lib/theme/palettes"
+import { truncateAddress } from "@/lib/utils"
+import { isMobileBrowser, openInWallet, type WalletAdapter } from "@/lib/wallets"
+
+const navLinks = (items: NavItem[]): NavLink[] =>
+  items.flatMap((item) => (isNavGroup(item) ? navLinks(item.children) : [item]))
+
+interface SiteCommandsProps {
+  projects: Pick<Project, "slug" | "title" | "tech">[]
+  team: Pick<TeamMember, "name" | "role">[]
+}
+
+// Landing page sections from the navigation config, then every project and team member
+function useContentCommands({ projects, team }: SiteCommandsProps): Command[] {
+  const router = useRouter()
+  const { locale, messages: { nav } } = useI18n()
+
+  return React.useMemo(() => {
+    // Sections are only on the landing page; from anywhere else, go there first
+    const goTo = (href: string) => {
+      if (href.startsWith("#") && focusSection(href.slice(1))) return
+      router.push(href.startsWith("#") ? `${localizePath(locale, "/")}${href}` : localizePath(locale, href))
+    }
+
+    return [
+      ...navLinks(navigation).map((link): Command => ({
+        id: `section:${link.href}`,
+        group: "navigation",
+        label: nav[link.label],
+        icon: Hash,
+        run: () => goTo(link.href),
+      })),
+      ...projects.map((project): Command => ({
+        id: `project:${project.slug}`,
+        group: "projects",
+        label: project.title,
+        keywords: project.tech,
+        icon: FileText,
+        run: () => goTo(`/projects/${project.slug}`),
+      })),
+      ...team.map((member): Command => ({
+        id: `team:${member.name}`,
+        group: "team",
+        label: member.name,
+        hint: member.role,
+        icon: User,
+        run: () => goTo("#team"),
+      })),
+    ]
+  }, [router, locale, nav, projects, team])
+}
+
+// Connect and disconnect, switch account or chain, and copy the active address
+function useWalletCommands(): Command[] {
+  const { wallets, connections, wallet: activeWallet, walletType, account, chain, status, connect, disconnect, selectAccount, switchChain } = useWallet()
+  const { messages } = useI18n()
+  const showWalletError = useWalletErrorToast()
+
+  return React.useMemo(() => {
+    const copy = messages.wallet
+    const connectedIds = new Set(connections.map(({ wallet }) => wallet.id))
+    // Phone browsers have no wallet extensions; offer the wallet apps' own browsers instead
+    const isMobile = isMobileBrowser()
+    const commands: Command[] = []
+
+    // Retrying from the error toast goes through the same handling, so a second failure is reported too
+    const connectWallet = async (wallet: WalletAdapter) => {
+      try {
+        await connect(wallet)
+      } catch (error) {
+        console.error(`Failed to connect to ${wallet.name}:`, error)
+        showWalletError(error, wallet, () => connectWallet(wallet))
+      }
+    }
+
+    const switchTo = async (wallet: WalletAdapter, chainId: string) => {
+      try {
+        await switchChain(chainId)
+      } catch (error) {
+        console.error(`Failed to switch ${wallet.name} to chain ${chainId}:`, error)
+        showWalletError(error, wallet, () => switchTo(wallet, chainId))
+      }
+    }
+
+    if (status !== "restoring" && status !== "connecting") {
+      for (const wallet of wallets) {
+        if (connectedIds.has(wallet.id)) continue
+        if (isMobile && !wallet.detect() && wallet.deepLink) {
+          const { appName } = wallet.deepLink
+          commands.push({
+            id: `wallet:open:${wallet.id}`,
+            group: "wallet",
+            label: interpolate(copy.openIn, { app: appName }),
+            icon: ExternalLink,
+            run: () => openInWallet(wallet),
+          })
+          continue
+        }
+        commands.push({
+          id: `wallet:connect:${wallet.id}`,
+          group: "wallet",
+          label: interpolate(copy.connect, { wallet: wallet.name }),
+          hint: wallet.detect() ? undefined : copy.notInstalled,
+          icon: Wallet,
+          run: () => connectWallet(wallet),
+        })
+      }
+    }
+
+    for (const { wallet, accounts } of connections) {
+      for (const address of accounts) {
+        if (wallet.id === walletType && address === account) continue
+        commands.push({
+          id: `wallet:account:${wallet.id}:${address}`,
+          group: "wallet",
+          label: interpolate(messages.commands.useAccount, { address: truncateAddress(address) }),
+          hint: wallet.name,
+          keywords: [address],
+          icon: User,
+          run: () => selectAccount(wallet.id, address).catch((error) => {
+            console.error("Failed to switch account:", error)
+            showWalletError(error, wallet)
+          }),
+        })
+      }
+    }
+
+    if (activeWallet?.switchChain) {
+      for (const option of getSupportedChains(activeWallet.family)) {
+        if (option.id === chain?.id) continue
+        commands.push({
+          id: `wallet:chain:${option.id}`,
+          group: "wallet",
+          label: interpolate(messages.commands.switchChain, { chain: option.name }),
+          hint: activeWallet.name,
+          icon: Link2,
+          run: () => switchTo(activeWallet, option.id),
+        })
+      }
+    }
+
+    if (account) {
+      commands.push({
+        id: "wallet:copy-address",
+        group: "wallet",
+        label: messages.account.copyAddress,
+        hint: truncateAddress(account),
+        icon: Copy,
+        run: () => navigator.clipboard.writeText(account).then(
+          () => { toast({ title: messages.account.addressCopied }) },
+          () => { toast({ variant: "destructive", title: messages.account.copyFailed }) },
+        ),
+      })
+    }
+
+    for (const { wallet } of connections) {
+      commands.push({
+        id: `wallet:disconnect:${wallet.id}`,
+        group: "wallet",
+        label: interpolate(copy.disconnect, { wallet: wallet.name }),
+        icon: LogOut,
+        run: () => disconnect(wallet.id),
+      })
+    }
+
+    return commands
+  }, [wallets, connections, activeWallet, walletType, account, chain, status, connect, disconnect, selectAccount, switchChain, messages, showWalletError])
+}
+
+// Dark mode, color presets and language
+function usePreferenceCommands(): Command[] {
+  const { resolvedTheme, setTheme } = useTheme()
+  const { palette, setPalette } = usePalette()
+  const changeLocale = useChangeLocale()
+  const { locale, messages } = useI18n()
+
+  return React.useMemo(() => {
+    const copy = messages.commands
+    return [
+      {
+        id: "preferences:toggle-theme",
+        group: "preferences",
+        label: copy.toggleTheme,
+        keywords: [messages.theme.modes.light, messages.theme.modes.dark],
+        icon: SunMoon,
+        run: () => setTheme(resolvedTheme === "dark" ? "light" : "dark"),
+      },
+      ...palettes.filter((option) => option !== palette).map((option): Command => ({
+        id: `preferences:palette:${option}`,
+        group: "preferences",
+        label: interpolate(copy.usePalette, { palette: messages.theme.palettes[option] }),
+        icon: Palette,
+        run: () => setPalette(option),
+      })),
+      ...locales.filter((option) => option !== locale).map((option): Command => ({
+        id: `preferences:locale:${option}`,
+        group: "preferences",
+        label: interpolate(copy.changeLanguage, { language: localeNames[option] }),
+        keywords: [option],
+        icon: Languages,
+        run: () => changeLocale(option),
+      })),
+    ]
+  }, [resolvedTheme, setTheme, palette, setPalette, changeLocale, locale, messages])
+}
+
+/**
+ * The palette's built-in commands. Other modules add their own with
+ * `useRegisterCommands` or `registerCommands`.
+ */
+export function SiteCommands(props: SiteCommandsProps) {
+  useRegisterCommands(useContentCommands(props))
+  useRegisterCommands(useWalletCommands())
+  useRegisterCommands(usePreferenceCommands())
+  return null
+}
@@ -0,0 +1,180 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { ChevronDown, Menu } from "lucide-react"
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Sheet, SheetClose, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import { useI18n } from "@/hooks/use-i18n"
+import { useScrollSpy } from "@/hooks/use-scroll-spy"
+import { localizePath } from "@/lib/i18n"
+import { containsSection, focusSection, isNavGroup, navigation, navSectionIds, type NavItem, type NavLink } from "@/lib/navigation"
+import { cn } from "@/lib/utils"
+
+const sectionIds = navSectionIds(navigation)
+
+/**
+ * Menus hand focus back to their trigger when they close, which scrolls the
+ * header back into view. A section picked from a menu is remembered and gets
+ * focus instead, once the menu has closed.
+ */
+function useSectionFocus() {
+  const pending = React.useRef<string | null>(null)
+
+  const remember = (link: NavLink) => {
+    pending.current = link.href.startsWith("#") ? link.href.slice(1) : null
+  }
+
+  const onCloseAutoFocus = (event: Event) => {
+    const sectionId = pending.current
+    pending.current = null
+    if (sectionId && focusSection(sectionId)) event.preventDefault()
+  }
+
+  return { remember, onCloseAutoFocus }
+}
+
+interface NavAnchorProps extends Omit<React.ComponentPropsWithoutRef<typeof Link>, "href"> {
+  link: NavLink
+  activeId: string | null
+}
+
+const NavAnchor = React.forwardRef<HTMLAnchorElement, NavAnchorProps>(({ link, activeId, className, ...props }, ref) => {
+  const { locale, messages } = useI18n()
+  const active = containsSection(link, activeId)
+
+  return (
+    <Link
+      ref={ref}
+      href={link.href.startsWith("#") ? link.href : localizePath(locale, link.href)}
+      aria-current={active ? "location" : undefined}
+      className={cn(className, active && "font-semibold text-primary")}
+      {...props}
+    >
+      {messages.nav[link.label]}
+    </Link>
+  )
+})
+NavAnchor.displayName = "NavAnchor"
+
+interface MenuItemsProps {
+  items: NavItem[]
+  activeId: string | null
+  onNavigate: (link: NavLink) => void
+}
+
+// Dropdown entries; a group inside a group opens as a submenu
+function DropdownItems({ items, activeId, onNavigate }: MenuItemsProps) {
+  const { messages: { nav } } = useI18n()
+
+  return items.map((item) =>
+    isNavGroup(item) ? (
+      <DropdownMenuSub key={item.label}>
+        <DropdownMenuSubTrigger className={cn(containsSection(item, activeId) && "font-semibold text-primary")}>
+          {nav[item.label]}
+        </DropdownMenuSubTrigger>
+        <DropdownMenuSubContent>
+          <DropdownItems items={item.children} activeId={activeId} onNavigate={onNavigate} />
+        </DropdownMenuSubContent>
+      </DropdownMenuSub>
+    ) : (
+      <DropdownMenuItem key={item.href} asChild>
+        <NavAnchor link={item} activeId={activeId} onClick={() => onNavigate(item)} />
+      </DropdownMenuItem>
+    ),
+  )
+}
+
+// The header links on wider screens; groups open as dropdowns
+export function DesktopNav({ className }: { className?: string }) {
+  const { messages: { nav } } = useI18n()
+  const activeId = useScrollSpy(sectionIds)
+  const { remember, onCloseAutoFocus } = useSectionFocus()
+
+  return (
+    <nav className={cn("flex items-center space-x-4", className)}>
+      {navigation.map((item) =>
+        isNavGroup(item) ? (
+          <DropdownMenu key={item.label}>
+            <DropdownMenuTrigger
+              className={cn(
+                "flex items-center gap-1 hover:underline focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring",
+                containsSection(item, activeId) && "font-semibold text-primary",
+              )}
+            >
+              {nav[item.label]}
+              <ChevronDown className="h-4 w-4" />
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" onCloseAutoFocus={onCloseAutoFocus}>
+              <DropdownItems items={item.children} activeId={activeId} onNavigate={remember} />
+            </DropdownMenuContent>
+          </DropdownMenu>
+        ) : (
+          <NavAnchor key={item.href} link={item} activeId={activeId} className="hover:underline" />
+        ),
+      )}
+    </nav>
+  )
+}
+
+// Drawer entries; groups become a heading over an indented list
+function DrawerItems({ items, activeId, onNavigate }: MenuItemsProps) {
+  const { messages: { nav } } = useI18n()
+
+  return (
+    <ul className="space-y-3">
+      {items.map((item) =>
+        isNavGroup(item) ? (
+          <li key={item.label} className="space-y-3">
+            <span className="text-sm font-medium text-muted-foreground">{nav[item.label]}</span>
+            <div className="border-l pl-4">
+              <DrawerItems items={item.children} activeId={activeId} onNavigate={onNavigate} />
+            </div>
+          </li>
+        ) : (
+          <li key={item.href}>
+            <SheetClose asChild>
+              <NavAnchor link={item} activeId={activeId} className="block text-lg hover:underline" onClick={() => onNavigate(item)} />
+            </SheetClose>
+          </li>
+        ),
+      )}
+    </ul>
+  )
+}
+
+/**
+ * The menu button and drawer on small screens. The drawer traps focus, closes
+ * on Escape, outside clicks and after a link is tapped, and its trigger
+ * reports `aria-expanded`.
+ */
+export function MobileNav() {
+  const { messages: { nav, dialog } } = useI18n()
+  const activeId = useScrollSpy(sectionIds)
+  const { remember, onCloseAutoFocus } = useSectionFocus()
+
+  return (
+    <Sheet>
+      <SheetTrigger className="ml-2 p-2" aria-label={nav.openMenu}>
+        <Menu size={24} />
+      </SheetTrigger>
+      <SheetContent side="right" closeLabel={dialog.close} aria-describedby={undefined} onCloseAutoFocus={onCloseAutoFocus}>
+        <SheetHeader>
+          <SheetTitle>{nav.menu}</SheetTitle>
+        </SheetHeader>
+        <nav className="mt-6">
+          <DrawerItems items={navigation} activeId={activeId} onNavigate={remember} />
+        </nav>
+      </SheetContent>
+    </Sheet>
+  )
+}
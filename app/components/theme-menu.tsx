@@ -0,0 +1,68 @@
+"use client"
+
+import * as React from "react"
+import { Monitor, Moon, Sun } from "lucide-react"
+import { useTheme } from "next-themes"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useI18n } from "@/hooks/use-i18n"
+import { usePalette } from "@/hooks/use-palette"
+import { isPalette, palettes, paletteSwatches } from "@/lib/theme/palettes"
+
+const modes = [
+  { value: "light", icon: Sun },
+  { value: "dark", icon: Moon },
+  { value: "system", icon: Monitor },
+] as const
+
+// Light, dark or following the system, plus a color preset; both are remembered in this browser
+export function ThemeMenu() {
+  const { theme, setTheme } = useTheme()
+  const { palette, setPalette } = usePalette()
+  const { messages: { theme: copy } } = useI18n()
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" aria-label={copy.menu}>
+          <Sun className="h-[1.2rem] w-[1.2rem] rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
+          <Moon className="absolute h-[1.2rem] w-[1.2rem] rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuLabel>{copy.mode}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={theme} onValueChange={setTheme}>
+          {modes.map(({ value, icon: Icon }) => (
+            <DropdownMenuRadioItem key={value} value={value}>
+              <Icon className="mr-2 h-4 w-4" />
+              {copy.modes[value]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>{copy.palette}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={palette} onValueChange={(value) => isPalette(value) && setPalette(value)}>
+          {palettes.map((option) => (
+            <DropdownMenuRadioItem key={option} value={option}>
+              <span
+                className="mr-2 h-4 w-4 rounded-full border"
+                style={{ backgroundColor: paletteSwatches[option] }}
+                aria-hidden="true"
+              />
+              {copy.palettes[option]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,346 @@
+"use client"
+
+import * as React from "react"
+import { fetchSession, signIn, signOut } from "@/lib/auth/client"
+import { findIdentity, type WalletSession } from "@/lib/auth/session"
+import { useWalletErrorToast } from "@/components/ui/wallet-error-toast"
+import {
+  getWallets,
+  recordWalletEvent,
+  subscribeWallets,
+  takeDeepLinkConnect,
+  waitForWallet,
+  WalletError,
+  type ChainAddress,
+  type ChainInfo,
+  type WalletAdapter,
+  type WalletEventType,
+  type WalletFamily,
+} from "@/lib/wallets"
+
+// "restoring" covers the silent reconnect on page load, before we know whether a wallet is connected
+export type WalletStatus = "restoring" | "disconnected" | "connecting" | "connected"
+
+export interface WalletConnection {
+  wallet: WalletAdapter
+  accounts: string[]
+  chain: ChainInfo | null
+  chainAddresses: ChainAddress[]
+}
+
+export interface ActiveAccount {
+  walletId: string
+  address: string
+}
+
+export interface WalletContextValue {
+  wallets: WalletAdapter[]
+  connections: WalletConnection[]
+  session: WalletSession | null
+  // The active account and the connection it belongs to
+  wallet: WalletAdapter | null
+  walletType: string | null
+  family: WalletFamily | null
+  account: string
+  chain: ChainInfo | null
+  chainAddresses: ChainAddress[]
+  status: WalletStatus
+  connect: (wallet: WalletAdapter) => Promise<void>
+  // Disconnects one wallet, the active one by default
+  disconnect: (walletId?: string) => void
+  disconnectAll: () => void
+  selectAccount: (walletId: string, address: string) => Promise<void>
+  switchChain: (chainId: string) => Promise<void>
+}
+
+export const WalletContext = React.createContext<WalletContextValue | null>(null)
+
+// Remembers which wallets to restore on the next visit; the session cookie itself stays httpOnly
+const CONNECTED_WALLETS_KEY = "connectedWallets"
+const ACTIVE_ACCOUNT_KEY = "activeAccount"
+// Wallet id to the chain it was last on, for wallets whose network the page picks
+const WALLET_CHAINS_KEY = "walletChains"
+
+function readStorage<T>(key: string): T | null {
+  try {
+    const value = localStorage.getItem(key)
+    return value ? (JSON.parse(value) as T) : null
+  } catch {
+    return null
+  }
+}
+
+// Proves ownership of the address to the server, which answers with an httpOnly session cookie
+async function authenticate(wallet: WalletAdapter, accountAddress: string): Promise<WalletSession> {
+  const session = await fetchSession()
+  if (session && findIdentity(session, wallet.id, accountAddress)) return session
+
+  const chain = await wallet.getChain()
+  return signIn({
+    walletType: wallet.id,
+    family: wallet.family,
+    address: accountAddress,
+    chainId: chain.id,
+    sign: (message) => wallet.signMessage(accountAddress, message),
+  })
+}
+
+function verifiedAccounts(connections: WalletConnection[], session: WalletSession | null): ActiveAccount[] {
+  return connections.flatMap(({ wallet, accounts }) => (
+    accounts
+      .filter((address) => findIdentity(session, wallet.id, address))
+      .map((address) => ({ walletId: wallet.id, address }))
+  ))
+}
+
+function recordEvent(type: WalletEventType, wallet: WalletAdapter, details: { address?: string; chainId?: string } = {}) {
+  recordWalletEvent({ type, walletId: wallet.id, walletName: wallet.name, family: wallet.family, ...details })
+}
+
+async function loadChainAddresses(wallet: WalletAdapter): Promise<ChainAddress[]> {
+  if (!wallet.getChainAddresses) return []
+  return wallet.getChainAddresses().catch((error) => {
+    console.error(`Failed to load ${wallet.name} addresses:`, error)
+    return []
+  })
+}
+
+export function WalletProvider({ children }: { children: React.ReactNode }) {
+  const wallets = React.useSyncExternalStore(subscribeWallets, getWallets, getWallets)
+  const [connections, setConnections] = React.useState<Record<string, WalletConnection>>({})
+  const [active, setActive] = React.useState<ActiveAccount | null>(null)
+  const [session, setSession] = React.useState<WalletSession | null>(null)
+  const [pending, setPending] = React.useState<"restoring" | "connecting" | null>("restoring")
+  const showWalletError = useWalletErrorToast()
+  // Wallets this page has disconnected. Some, like Phantom, report that back as
+  // an event, which must not start another disconnect.
+  const disconnected = React.useRef(new Set<string>())
+  const status: WalletStatus = pending ?? (Object.keys(connections).length > 0 ? "connected" : "disconnected")
+
+  const updateConnection = React.useCallback((walletId: string, patch: Partial<WalletConnection>) => {
+    setConnections((current) => (
+      current[walletId] ? { ...current, [walletId]: { ...current[walletId], ...patch } } : current
+    ))
+  }, [])
+
+  // Persist what to restore next time
+  React.useEffect(() => {
+    if (pending === "restoring") return
+    localStorage.setItem(CONNECTED_WALLETS_KEY, JSON.stringify(Object.keys(connections)))
+    const chains = Object.fromEntries(Object.values(connections).flatMap(({ wallet, chain }) => (chain ? [[wallet.id, chain.id]] : [])))
+    localStorage.setItem(WALLET_CHAINS_KEY, JSON.stringify(chains))
+    if (active) {
+      localStorage.setItem(ACTIVE_ACCOUNT_KEY, JSON.stringify(active))
+    } else {
+      localStorage.removeItem(ACTIVE_ACCOUNT_KEY)
+    }
+  }, [connections, active, pending])
+
+  const disconnect = React.useCallback((walletId?: string) => {
+    const id = walletId ?? active?.walletId
+    const connection = id ? connections[id] : undefined
+    if (!id || !connection || disconnected.current.has(id)) return
+
+    disconnected.current.add(id)
+    connection.wallet.disconnect().catch((error) => console.error(`Failed to disconnect ${connection.wallet.name}:`, error))
+    recordEvent("disconnected", connection.wallet)
+    const remaining = { ...connections }
+    delete remaining[id]
+    setConnections(remaining)
+
+    if (active?.walletId === id) {
+      // Fall back to a verified account of another connected wallet, if any
+      setActive(verifiedAccounts(Object.values(remaining), session)[0] ?? null)
+    }
+
+    // End this wallet's part of the server-side session
+    signOut(id)
+      .then(setSession)
+      .catch((error) => console.error("Failed to sign out:", error))
+  }, [active, connections, session])
+
+  const disconnectAll = React.useCallback(() => {
+    Object.values(connections).forEach(({ wallet }) => {
+      disconnected.current.add(wallet.id)
+      wallet.disconnect().catch((error) => console.error(`Failed to disconnect ${wallet.name}:`, error))
+      recordEvent("disconnected", wallet)
+    })
+    setConnections({})
+    setActive(null)
+    signOut()
+      .then(setSession)
+      .catch((error) => console.error("Failed to sign out:", error))
+  }, [connections])
+
+  const connect = React.useCallback(async (wallet: WalletAdapter) => {
+    setPending("connecting")
+    disconnected.current.delete(wallet.id)
+    try {
+      // Reuse an existing authorization before prompting the user
+      const existing = await wallet.reconnect()
+      const accounts = existing.length > 0 ? existing : await wallet.connect()
+      if (accounts.length === 0) throw new Error(`${wallet.name} returned no accounts`)
+
+      setSession(await authenticate(wallet, accounts[0]))
+      const [chain, chainAddresses] = await Promise.all([wallet.getChain(), loadChainAddresses(wallet)])
+      setConnections((current) => ({ ...current, [wallet.id]: { wallet, accounts, chain, chainAddresses } }))
+      setActive({ walletId: wallet.id, address: accounts[0] })
+      recordEvent("connected", wallet, { address: accounts[0], chainId: chain.id })
+    } finally {
+      setPending(null)
+    }
+  }, [])
+
+  const selectAccount = React.useCallback(async (walletId: string, address: string) => {
+    const connection = connections[walletId]
+    if (!connection || !connection.accounts.includes(address)) return
+    // Only accounts proven to the server can become active
+    setSession(await authenticate(connection.wallet, address))
+    setActive({ walletId, address })
+    recordEvent("account_changed", connection.wallet, { address })
+  }, [connections])
+
+  const switchChain = React.useCallback(async (chainId: string) => {
+    const wallet = active ? connections[active.walletId]?.wallet : undefined
+    // The code picks the toast copy, so the message only reaches the console
+    if (!wallet?.switchChain) throw new WalletError("switch_unsupported", `${wallet?.name ?? "Wallet"} cannot switch networks`)
+    await wallet.switchChain(chainId)
+  }, [active, connections])
+
+  // Silently reconnect previously connected wallets on page load. This only
+  // uses the wallets' non-prompting account queries, on the chain each wallet
+  // was last on, and only keeps accounts the server session already knows, so
+  // a returning user is never asked to approve or sign anything on load.
+  React.useEffect(() => {
+    let cancelled = false
+
+    const restore = async () => {
+      const walletIds = readStorage<string[]>(CONNECTED_WALLETS_KEY) ?? []
+      if (walletIds.length === 0) return
+
+      const restoredSession = await fetchSession()
+      if (!restoredSession) return
+
+      const storedChains = readStorage<Record<string, string>>(WALLET_CHAINS_KEY) ?? {}
+      const restored: Record<string, WalletConnection> = {}
+      await Promise.all(walletIds.map(async (walletId) => {
+        const wallet = await waitForWallet(walletId)
+        if (!wallet?.detect()) return
+        try {
+          const accounts = await wallet.reconnect(storedChains[walletId])
+          if (!accounts.some((address) => findIdentity(restoredSession, wallet.id, address))) return
+          const [chain, chainAddresses] = await Promise.all([wallet.getChain(), loadChainAddresses(wallet)])
+          restored[wallet.id] = { wallet, accounts, chain, chainAddresses }
+        } catch (error) {
+          console.error(`Failed to restore ${wallet.name}:`, error)
+        }
+      }))
+      if (cancelled) return
+
+      const storedActive = readStorage<ActiveAccount>(ACTIVE_ACCOUNT_KEY)
+      const verifiedActive = verifiedAccounts(Object.values(restored), restoredSession)
+      const nextActive = verifiedActive.find((candidate) => (
+        candidate.walletId === storedActive?.walletId && candidate.address === storedActive?.address
+      )) ?? verifiedActive[0] ?? null
+
+      setSession(restoredSession)
+      setConnections(restored)
+      setActive(nextActive)
+    }
+
+    restore()
+      .catch((error) => console.error("Failed to restore wallet connections:", error))
+      .finally(() => {
+        if (!cancelled) setPending((current) => (current === "restoring" ? null : current))
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Finish a connect started from a mobile browser, now that the page runs inside the wallet app
+  React.useEffect(() => {
+    if (pending === "restoring") return
+    const family = takeDeepLinkConnect()
+    if (!family) return
+
+    const wallet = wallets.find((candidate) => candidate.family === family && candidate.detect())
+    if (!wallet || connections[wallet.id]) return
+    const resume = () => {
+      connect(wallet).catch((error) => {
+        console.error(`Failed to connect to ${wallet.name}:`, error)
+        showWalletError(error, wallet, resume)
+      })
+    }
+    resume()
+  }, [pending, wallets, connections, connect, showWalletError])
+
+  // Event handlers read the latest state through a ref, so subscriptions only
+  // change when a wallet is connected or disconnected
+  const latest = React.useRef({ connections, active, disconnect })
+  React.useEffect(() => {
+    latest.current = { connections, active, disconnect }
+  })
+
+  // Subscribe to account and chain events of every connected wallet
+  const connectedIds = Object.keys(connections).sort().join(",")
+  React.useEffect(() => {
+    const unsubscribes = Object.values(latest.current.connections).flatMap(({ wallet }) => {
+      const offAccounts = wallet.onAccountsChanged((accounts) => {
+        if (accounts.length === 0) {
+          latest.current.disconnect(wallet.id)
+          return
+        }
+        updateConnection(wallet.id, { accounts })
+        loadChainAddresses(wallet).then((chainAddresses) => updateConnection(wallet.id, { chainAddresses }))
+
+        // If the active account left this wallet, prove ownership of its replacement
+        const { active } = latest.current
+        if (active?.walletId === wallet.id && !accounts.includes(active.address)) {
+          authenticate(wallet, accounts[0])
+            .then((next) => {
+              setSession(next)
+              setActive({ walletId: wallet.id, address: accounts[0] })
+              recordEvent("account_changed", wallet, { address: accounts[0] })
+            })
+            .catch(() => latest.current.disconnect(wallet.id))
+        }
+      })
+
+      const offChain = wallet.onChainChanged?.((chain) => {
+        updateConnection(wallet.id, { chain })
+        recordEvent("chain_changed", wallet, { chainId: chain.id })
+        loadChainAddresses(wallet).then((chainAddresses) => updateConnection(wallet.id, { chainAddresses }))
+      })
+
+      return offChain ? [offAccounts, offChain] : [offAccounts]
+    })
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [connectedIds, updateConnection])
+
+  const activeConnection = active ? connections[active.walletId] ?? null : null
+
+  const value = React.useMemo<WalletContextValue>(() => ({
+    wallets,
+    connections: Object.values(connections),
+    session,
+    wallet: activeConnection?.wallet ?? null,
+    walletType: activeConnection?.wallet.id ?? null,
+    family: activeConnection?.wallet.family ?? null,
+    account: activeConnection ? active?.address ?? "" : "",
+    chain: activeConnection?.chain ?? null,
+    chainAddresses: activeConnection?.chainAddresses ?? [],
+    status,
+    connect,
+    disconnect,
+    disconnectAll,
+    selectAccount,
+    switchChain,
+  }), [
+    wallets, connections, session, activeConnection, active, status,
+    connect, disconnect, disconnectAll, selectAccount, switchChain,
+  ])
+
+  return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>
+}
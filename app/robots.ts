@@ -0,0 +1,23 @@
+import type { MetadataRoute } from 'next'
+import { CONNECT_PATH, protectedRoutes } from '@/lib/auth/routes'
+import { localizePath, locales } from '@/lib/i18n'
+import { absoluteUrl } from '@/lib/seo'
+
+// Crawlers only get redirected to /connect from protected pages, so keep them out
+export default function robots(): MetadataRoute.Robots {
+  const pagePaths = protectedRoutes.map(({ path }) => path).filter((path) => !path.startsWith('/api/'))
+
+  return {
+    rules: {
+      userAgent: '*',
+      // Uploaded images are shown on public pages
+      allow: ['/', '/api/uploads/'],
+      disallow: [
+        '/api/',
+        ...locales.flatMap((locale) => pagePaths.map((path) => localizePath(locale, path))),
+        ...locales.map((locale) => localizePath(locale, CONNECT_PATH)),
+      ],
+    },
+    sitemap: absoluteUrl('/sitemap.xml'),
+  }
+}
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from 'next'
+import { getContent } from '@/lib/content'
+import { localizePath, locales } from '@/lib/i18n'
+import { absoluteUrl, languageAlternates } from '@/lib/seo'
+
+// The public pages in every locale; pages behind a wallet rule are left out
+export default function sitemap(): MetadataRoute.Sitemap {
+  const paths = ['/', ...getContent().projects.map(({ slug }) => `/projects/${slug}`)]
+
+  return paths.flatMap((path) => {
+    const languages = Object.fromEntries(
+      Object.entries(languageAlternates(path)).map(([language, url]) => [language, absoluteUrl(url)]),
+    )
+    return locales.map((locale) => ({
+      url: absoluteUrl(localizePath(locale, path)),
+      changeFrequency: path === '/' ? 'weekly' as const : 'monthly' as const,
+      priority: path === '/' ? 1 : 0.8,
+      alternates: { languages },
+    }))
+  })
+}
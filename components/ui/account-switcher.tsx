@@ -0,0 +1,110 @@
+'use client'
+
+import Image from "next/image"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ChevronDown, LayoutDashboard, LogOut, Plus, Settings } from "lucide-react"
+import { AddressDisplay } from "@/components/ui/address-display"
+import { useWalletErrorToast } from "@/components/ui/wallet-error-toast"
+import { useI18n } from "@/hooks/use-i18n"
+import { useWallet } from "@/hooks/use-wallet"
+import { interpolate, localizePath } from "@/lib/i18n"
+
+interface AccountSwitcherProps {
+  onConnectWallet: () => void
+  onManage: () => void
+}
+
+// Radio values combine wallet and address, since one address can be connected through two wallets.
+// Wallet ids can contain colons (eip6963:<rdns>) but addresses don't, so the last one separates them.
+const accountKey = (walletId: string, address: string) => `${walletId}:${address}`
+
+export function AccountSwitcher({ onConnectWallet, onManage }: AccountSwitcherProps) {
+  const { connections, walletType, family, account, selectAccount, disconnect, disconnectAll } = useWallet()
+  const { locale, messages } = useI18n()
+  const copy = messages.wallet
+  const showWalletError = useWalletErrorToast()
+
+  const onSelect = (value: string) => {
+    const separator = value.lastIndexOf(':')
+    const walletId = value.slice(0, separator)
+    const address = value.slice(separator + 1)
+    selectAccount(walletId, address).catch((error) => {
+      console.error('Failed to switch account:', error)
+      showWalletError(error, connections.find(({ wallet }) => wallet.id === walletId)?.wallet ?? null)
+    })
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" aria-label={copy.switchAccount}>
+          <AddressDisplay family={family} address={account} className="max-w-[10rem]" />
+          <ChevronDown className="ml-2 h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>{copy.activeAccount}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={walletType ? accountKey(walletType, account) : undefined}
+          onValueChange={onSelect}
+        >
+          {connections.map(({ wallet, accounts }) => (
+            <DropdownMenuSub key={wallet.id}>
+              <DropdownMenuSubTrigger>
+                {wallet.icon && (
+                  <Image src={wallet.icon} alt="" width={16} height={16} className="mr-2" unoptimized />
+                )}
+                {wallet.name}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="w-64">
+                {accounts.map((address) => (
+                  <DropdownMenuRadioItem key={address} value={accountKey(wallet.id, address)}>
+                    <AddressDisplay family={wallet.family} address={address} />
+                  </DropdownMenuRadioItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={() => disconnect(wallet.id)}>
+                  <LogOut className="mr-2 h-4 w-4" />
+                  {interpolate(copy.disconnect, { wallet: wallet.name })}
+                </DropdownMenuItem>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href={localizePath(locale, "/account")}>
+            <LayoutDashboard className="mr-2 h-4 w-4" />
+            {copy.account}
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={onManage}>
+          <Settings className="mr-2 h-4 w-4" />
+          {copy.manageConnection}
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={onConnectWallet}>
+          <Plus className="mr-2 h-4 w-4" />
+          {copy.connectAnother}
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={disconnectAll}>
+          <LogOut className="mr-2 h-4 w-4" />
+          {copy.disconnectAll}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
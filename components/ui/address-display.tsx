@@ -0,0 +1,33 @@
+'use client'
+
+import Image from "next/image"
+import { useResolvedName } from "@/hooks/use-resolved-name"
+import { cn, truncateAddress } from "@/lib/utils"
+import type { WalletFamily } from '@/lib/wallets'
+
+interface AddressDisplayProps {
+  family: WalletFamily | null
+  address: string
+  className?: string
+  avatarSize?: number
+}
+
+export function AddressDisplay({ family, address, className, avatarSize = 16 }: AddressDisplayProps) {
+  const { name, avatar } = useResolvedName(family, address)
+
+  return (
+    <span className={cn("inline-flex min-w-0 items-center gap-2", className)} title={address}>
+      {avatar && (
+        <Image
+          src={avatar}
+          alt=""
+          width={avatarSize}
+          height={avatarSize}
+          className="shrink-0 rounded-full"
+          unoptimized
+        />
+      )}
+      <span className={cn("truncate", !name && "font-mono")}>{name ?? truncateAddress(address)}</span>
+    </span>
+  )
+}
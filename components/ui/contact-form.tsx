@@ -0,0 +1,138 @@
+'use client'
+
+import * as React from "react"
+import { Loader2, Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { AddressDisplay } from "@/components/ui/address-display"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/hooks/use-toast"
+import { useI18n } from "@/hooks/use-i18n"
+import { useWallet } from "@/hooks/use-wallet"
+import { contactFormSchema, type ContactFieldErrors } from "@/lib/contact/schema"
+
+type FormStatus = "idle" | "sending" | "sent"
+
+// Errors from the schema, on either side, are keys of `contact.errors`
+function FieldError({ id, errors }: { id: string; errors?: string[] }) {
+  const { messages: { contact: copy } } = useI18n()
+  if (!errors?.length) return null
+  const [key] = errors
+  const text = Object.hasOwn(copy.errors, key) ? copy.errors[key as keyof typeof copy.errors] : copy.tryAgain
+  return <p id={id} className="text-sm text-destructive">{text}</p>
+}
+
+export function ContactForm() {
+  const { walletType, family, account } = useWallet()
+  const { messages: { contact: copy } } = useI18n()
+  const [status, setStatus] = React.useState<FormStatus>("idle")
+  const [fieldErrors, setFieldErrors] = React.useState<ContactFieldErrors>({})
+  const [attachWallet, setAttachWallet] = React.useState(true)
+
+  const showNotSent = (description: string) => toast({ variant: "destructive", title: copy.notSent, description })
+
+  const onSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const form = event.currentTarget
+    const data = new FormData(form)
+    const values = {
+      name: String(data.get("name") ?? ""),
+      email: String(data.get("email") ?? ""),
+      message: String(data.get("message") ?? ""),
+      website: String(data.get("website") ?? ""),
+      wallet: attachWallet && walletType && account ? { walletType, address: account } : undefined,
+    }
+
+    const parsed = contactFormSchema.safeParse(values)
+    if (!parsed.success) {
+      setFieldErrors(parsed.error.flatten().fieldErrors)
+      return
+    }
+
+    setFieldErrors({})
+    setStatus("sending")
+    try {
+      const response = await fetch("/api/contact", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(parsed.data),
+      })
+      const result = (await response.json()) as { fieldErrors?: ContactFieldErrors }
+      if (!response.ok) {
+        // The route's own error text is English, so only its status picks the copy
+        setFieldErrors(result.fieldErrors ?? {})
+        setStatus("idle")
+        showNotSent(response.status === 429 ? copy.tooMany : copy.couldNotSend)
+        return
+      }
+      form.reset()
+      setStatus("sent")
+    } catch {
+      setStatus("idle")
+      showNotSent(copy.tryAgain)
+    }
+  }
+
+  if (status === "sent") {
+    return (
+      <div className="space-y-4 text-center" role="status">
+        <p className="text-lg font-medium">{copy.sent}</p>
+        <Button variant="outline" onClick={() => setStatus("idle")}>{copy.sendAnother}</Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={onSubmit} noValidate className="w-full max-w-xl space-y-4">
+      <div className="space-y-2">
+        <label htmlFor="contact-name" className="text-sm font-medium">{copy.name}</label>
+        <Input
+          id="contact-name"
+          name="name"
+          autoComplete="name"
+          aria-invalid={Boolean(fieldErrors.name)}
+          aria-describedby={fieldErrors.name ? "contact-name-error" : undefined}
+        />
+        <FieldError id="contact-name-error" errors={fieldErrors.name} />
+      </div>
+      <div className="space-y-2">
+        <label htmlFor="contact-email" className="text-sm font-medium">{copy.email}</label>
+        <Input
+          id="contact-email"
+          name="email"
+          type="email"
+          autoComplete="email"
+          aria-invalid={Boolean(fieldErrors.email)}
+          aria-describedby={fieldErrors.email ? "contact-email-error" : undefined}
+        />
+        <FieldError id="contact-email-error" errors={fieldErrors.email} />
+      </div>
+      <div className="space-y-2">
+        <label htmlFor="contact-message" className="text-sm font-medium">{copy.message}</label>
+        <Textarea
+          id="contact-message"
+          name="message"
+          rows={5}
+          aria-invalid={Boolean(fieldErrors.message)}
+          aria-describedby={fieldErrors.message ? "contact-message-error" : undefined}
+        />
+        <FieldError id="contact-message-error" errors={fieldErrors.message} />
+      </div>
+      {/* Honeypot: off-screen and skipped by keyboard and screen readers, so only bots fill it in */}
+      <div className="absolute -left-[9999px]" aria-hidden="true">
+        <label htmlFor="contact-website">Website</label>
+        <input id="contact-website" name="website" type="text" tabIndex={-1} autoComplete="off" />
+      </div>
+      {account && (
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={attachWallet} onChange={(event) => setAttachWallet(event.target.checked)} />
+          {copy.includeWallet} <AddressDisplay family={family} address={account} />
+        </label>
+      )}
+      <Button type="submit" size="lg" disabled={status === "sending"}>
+        {status === "sending" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+        {copy.send}
+      </Button>
+    </form>
+  )
+}
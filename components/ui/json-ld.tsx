@@ -0,0 +1,9 @@
+// schema.org structured data; "<" is escaped so content can't close the script tag
+export function JsonLd({ data }: { data: object }) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, "\\u003c") }}
+    />
+  )
+}
@@ -0,0 +1,75 @@
+'use client'
+
+import * as React from "react"
+import dynamic from "next/dynamic"
+import { useRouter } from "next/navigation"
+import { Lock, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useI18n } from "@/hooks/use-i18n"
+import { useWallet } from "@/hooks/use-wallet"
+
+const MultiWalletConnect = dynamic(() => import("@/components/ui/multi-wallet-connect").then(mod => mod.MultiWalletConnect), { ssr: false })
+
+interface LockedSectionProps {
+  title: string
+  teaser?: string
+  requirement: string
+  upgradeUrl?: string
+  signedIn: boolean
+}
+
+// Teaser for content behind a TokenGate, with a way to unlock it
+export function LockedSection({ title, teaser, requirement, upgradeUrl, signedIn }: LockedSectionProps) {
+  const router = useRouter()
+  const { status, session } = useWallet()
+  const { messages: { gate: copy } } = useI18n()
+  const [isPending, startTransition] = React.useTransition()
+  const identityCount = session?.identities.length ?? 0
+  const baseline = React.useRef<number | null>(null)
+
+  const checkAgain = React.useCallback(() => startTransition(() => router.refresh()), [router])
+
+  // Signing in with another wallet may meet the condition, so ask the server again
+  React.useEffect(() => {
+    if (status === "restoring") return
+    if (baseline.current === null) {
+      baseline.current = identityCount
+    } else if (identityCount !== baseline.current) {
+      baseline.current = identityCount
+      checkAgain()
+    }
+  }, [status, identityCount, checkAgain])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Lock className="mr-2 h-4 w-4" />
+          {title}
+        </CardTitle>
+        {teaser && <CardDescription>{teaser}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm">
+          <span className="text-muted-foreground">{copy.requires} </span>
+          {requirement}
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <MultiWalletConnect />
+          {signedIn && upgradeUrl && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={upgradeUrl} target="_blank" rel="noopener noreferrer">{copy.getAccess}</a>
+            </Button>
+          )}
+          {signedIn && (
+            <Button variant="ghost" size="sm" onClick={checkAgain} disabled={isPending}>
+              <RefreshCw className={isPending ? "mr-2 h-4 w-4 animate-spin" : "mr-2 h-4 w-4"} />
+              {copy.checkAgain}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
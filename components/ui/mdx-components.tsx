@@ -0,0 +1,12 @@
+import type { MDXRemoteProps } from "next-mdx-remote/rsc"
+
+// Tailwind has no typography plugin here, so MDX elements are styled one by one
+export const mdxComponents: MDXRemoteProps["components"] = {
+  h2: (props) => <h2 className="mt-8 text-2xl font-semibold" {...props} />,
+  h3: (props) => <h3 className="mt-6 text-xl font-semibold" {...props} />,
+  p: (props) => <p className="mt-4 leading-7" {...props} />,
+  ul: (props) => <ul className="mt-4 ml-6 list-disc space-y-1" {...props} />,
+  ol: (props) => <ol className="mt-4 ml-6 list-decimal space-y-1" {...props} />,
+  a: (props) => <a className="font-medium underline underline-offset-4" {...props} />,
+  code: (props) => <code className="rounded bg-muted px-1 py-0.5 font-mono text-sm" {...props} />,
+}
@@ -1,6 +1,7 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
+import Image from "next/image"
 import { Button } from "@/components/ui/button"
 import {
   Dialog,
@@ -9,241 +10,132 @@ import {
   DialogTitle,
   DialogDescription,
 } from "@/components/ui/dialog"
-import { Wallet } from "lucide-react"
-import Cookies from 'js-cookie'  // Make sure to install this package: npm install js-cookie
+import { ExternalLink, Loader2, Wallet } from "lucide-react"
+import { AccountSwitcher } from "@/components/ui/account-switcher"
+import { AddressDisplay } from "@/components/ui/address-display"
+import { NetworkSwitcher } from "@/components/ui/network-switcher"
+import { WalletBalances } from "@/components/ui/wallet-balances"
+import { useWalletErrorToast } from "@/components/ui/wallet-error-toast"
+import { useI18n } from "@/hooks/use-i18n"
+import { useWallet } from "@/hooks/use-wallet"
+import { interpolate } from '@/lib/i18n'
+import { isMobileBrowser, openInWallet, type WalletAdapter, type WalletFamily } from '@/lib/wallets'
 
-declare global {
-  interface Window {
-    ethereum?: {
-      isMetaMask?: boolean;
-      request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
-      on?: (event: string, handler: (...args: unknown[]) => void) => void;
-      removeListener?: (event: string, handler: (...args: unknown[]) => void) => void;
-    };
-    solana?: {
-      isPhantom?: boolean;
-      connect: () => Promise<{ publicKey: { toString: () => string } }>;
-      disconnect: () => Promise<void>;
-      on: (event: string, handler: (...args: unknown[]) => void) => void;
-      removeListener: (event: string, handler: (...args: unknown[]) => void) => void;
-      isConnected: () => Promise<boolean>;
-      publicKey: { toString: () => string } | null;
-    };
-    keplr?: {
-      enable: (chainId: string) => Promise<void>;
-      getOfflineSigner: (chainId: string) => {
-        getAccounts: () => Promise<{ address: string }[]>;
-      };
-    };
-  }
-}
+const families: WalletFamily[] = ['evm', 'solana', 'cosmos']
 
-type WalletType = 'MetaMask' | 'Phantom' | 'Keplr';
+type DialogView = 'connect' | 'manage'
 
 export function MultiWalletConnect() {
   const [isOpen, setIsOpen] = useState(false)
-  const [connectedWallet, setConnectedWallet] = useState<WalletType | null>(null)
-  const [account, setAccount] = useState('')
-
-  useEffect(() => {
-    const handleAccountsChanged = (accounts: string[]) => {
-      if (accounts.length > 0) {
-        setAccount(accounts[0])
-        refreshCookies(connectedWallet!, accounts[0])
-      } else {
-        disconnectWallet()
-      }
-    }
-
-    if (typeof window.ethereum !== 'undefined' && window.ethereum.on) {
-      window.ethereum.on('accountsChanged', (accounts) => handleAccountsChanged(accounts as string[]))
-    }
-
-    if (typeof window.solana !== 'undefined' && window.solana.on) {
-      window.solana.on('accountChanged', (publicKey) => {
-        const pk = publicKey as { toString: () => string } | null;
-        if (pk) {
-          setAccount(pk.toString())
-          refreshCookies(connectedWallet!, pk.toString())
-        } else {
-          disconnectWallet()
-        }
-      })
-    }
-
-    return () => {
-      if (typeof window.ethereum !== 'undefined' && window.ethereum.removeListener) {
-        window.ethereum.removeListener('accountsChanged', handleAccountsChanged as (...args: unknown[]) => void)
-      }
-      if (typeof window.solana !== 'undefined' && window.solana.removeListener) {
-        window.solana.removeListener('accountChanged', () => {})
-      }
-    }
-  }, [connectedWallet])
+  const [view, setView] = useState<DialogView>('connect')
+  const { wallets, connections, wallet: connectedWallet, family, account, status, connect, disconnect } = useWallet()
+  const { messages } = useI18n()
+  const copy = messages.wallet
+  const showWalletError = useWalletErrorToast()
+  const connectedIds = new Set(connections.map((connection) => connection.wallet.id))
 
-  const refreshCookies = (walletType: WalletType, accountAddress: string) => {
-    // Set cookies with wallet information
-    Cookies.set('walletType', walletType, { expires: 7 }) // expires in 7 days
-    Cookies.set('accountAddress', accountAddress, { expires: 7 })
-    
-    // You might want to trigger a page reload or update app state here
-    // window.location.reload()
-    console.log('Cookies refreshed with new wallet information')
+  const openDialog = (nextView: DialogView) => {
+    setView(nextView)
+    setIsOpen(true)
   }
 
-  const checkExistingConnection = async (walletType: WalletType): Promise<boolean> => {
+  const connectWallet = async (wallet: WalletAdapter) => {
     try {
-      switch (walletType) {
-        case 'MetaMask':
-          if (typeof window.ethereum !== 'undefined') {
-            const accounts = await window.ethereum.request({ method: 'eth_accounts' }) as string[]
-            if (accounts.length > 0) {
-              setAccount(accounts[0])
-              setConnectedWallet('MetaMask')
-              refreshCookies('MetaMask', accounts[0])
-              return true
-            }
-          }
-          break
-        case 'Phantom':
-          if (typeof window.solana !== 'undefined' && window.solana.isPhantom) {
-            const isConnected = await window.solana.isConnected()
-            if (isConnected) {
-              const publicKey = window.solana.publicKey
-              if (publicKey) {
-                setAccount(publicKey.toString())
-                setConnectedWallet('Phantom')
-                refreshCookies('Phantom', publicKey.toString())
-                return true
-              }
-            }
-          }
-          break
-        case 'Keplr':
-          if (typeof window.keplr !== 'undefined') {
-            try {
-              const offlineSigner = window.keplr.getOfflineSigner('cosmoshub-4')
-              const accounts = await offlineSigner.getAccounts()
-              if (accounts.length > 0) {
-                setAccount(accounts[0].address)
-                setConnectedWallet('Keplr')
-                refreshCookies('Keplr', accounts[0].address)
-                return true
-              }
-            } catch {
-              // Silent fail if not already connected
-            }
-          }
-          break
-      }
-      return false
-    } catch (error) {
-      console.error(`Failed to check ${walletType} connection:`, error)
-      return false
-    }
-  }
-
-  const connectWallet = async (walletType: WalletType) => {
-    try {
-      // Check for existing connection only when user initiates
-      const isConnected = await checkExistingConnection(walletType)
-      if (isConnected) {
-        setIsOpen(false)
-        return
-      }
-
-      // If not connected, proceed with connection
-      switch (walletType) {
-        case 'MetaMask':
-          if (typeof window.ethereum !== 'undefined') {
-            await window.ethereum.request({ method: 'eth_requestAccounts' })
-            const accounts = await window.ethereum.request({ method: 'eth_accounts' }) as string[]
-            setAccount(accounts[0])
-            setConnectedWallet('MetaMask')
-            refreshCookies('MetaMask', accounts[0])
-          } else {
-            throw new Error('MetaMask not detected')
-          }
-          break
-        case 'Phantom':
-          if (typeof window.solana !== 'undefined' && window.solana.isPhantom) {
-            const resp = await window.solana.connect()
-            setAccount(resp.publicKey.toString())
-            setConnectedWallet('Phantom')
-            refreshCookies('Phantom', resp.publicKey.toString())
-          } else {
-            throw new Error('Phantom not detected')
-          }
-          break
-        case 'Keplr':
-          if (typeof window.keplr !== 'undefined') {
-            await window.keplr.enable('cosmoshub-4')
-            const offlineSigner = window.keplr.getOfflineSigner('cosmoshub-4')
-            const accounts = await offlineSigner.getAccounts()
-            setAccount(accounts[0].address)
-            setConnectedWallet('Keplr')
-            refreshCookies('Keplr', accounts[0].address)
-          } else {
-            throw new Error('Keplr not detected')
-          }
-          break
-      }
+      await connect(wallet)
       setIsOpen(false)
     } catch (error) {
-      console.error(`Failed to connect to ${walletType}:`, error)
-      alert(`Failed to connect to ${walletType}. Please make sure the wallet is installed and try again.`)
+      console.error(`Failed to connect to ${wallet.name}:`, error)
+      showWalletError(error, wallet, () => connectWallet(wallet))
     }
   }
 
   const disconnectWallet = () => {
-    setConnectedWallet(null)
-    setAccount('')
+    disconnect()
     setIsOpen(false)
-    // Clear cookies on disconnect
-    Cookies.remove('walletType')
-    Cookies.remove('accountAddress')
   }
 
+  // Hold a neutral placeholder while the previous connection is restored
+  if (status === 'restoring') {
+    return (
+      <Button variant="outline" size="sm" disabled aria-busy="true" aria-label={copy.restoring}>
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        {copy.wallet}
+      </Button>
+    )
+  }
+
+  const isManaging = view === 'manage' && connectedWallet !== null
+  // Phone browsers have no wallet extensions; offer the wallet apps' own browsers instead
+  const isMobile = isMobileBrowser()
+
   return (
     <>
-      <Button 
-        onClick={() => setIsOpen(true)} 
-        variant="outline" 
-        size="sm"
-        aria-label={connectedWallet ? "Manage wallet connection" : "Connect wallet"}
-      >
-        <Wallet className="mr-2 h-4 w-4" />
-        {connectedWallet ? `${connectedWallet} Connected` : 'Connect Wallet'}
-      </Button>
+      {connectedWallet ? (
+        <AccountSwitcher onConnectWallet={() => openDialog('connect')} onManage={() => openDialog('manage')} />
+      ) : (
+        <Button
+          onClick={() => openDialog('connect')}
+          variant="outline"
+          size="sm"
+        >
+          <Wallet className="mr-2 h-4 w-4" />
+          {copy.connectWallet}
+        </Button>
+      )}
       <Dialog open={isOpen} onOpenChange={setIsOpen}>
-        <DialogContent>
+        <DialogContent closeLabel={messages.dialog.close}>
           <DialogHeader>
-            <DialogTitle>{connectedWallet ? 'Manage Connection' : 'Connect Wallet'}</DialogTitle>
+            <DialogTitle>{isManaging ? copy.manageTitle : copy.connectWallet}</DialogTitle>
             <DialogDescription>
-              {connectedWallet 
-                ? `You are connected with ${connectedWallet}. Account: ${account.slice(0, 6)}...${account.slice(-4)}`
-                : "Choose a wallet to connect:"}
+              {isManaging
+                ? interpolate(copy.connectedWith, { wallet: connectedWallet.name })
+                : isMobile && !wallets.some((wallet) => wallet.detect())
+                  ? copy.openInWalletApp
+                  : copy.chooseWallet}
             </DialogDescription>
           </DialogHeader>
-          {connectedWallet ? (
-            <Button onClick={disconnectWallet} variant="destructive">
-              Disconnect
-            </Button>
-          ) : (
-            <div className="flex flex-col space-y-2">
-              <Button onClick={() => connectWallet('MetaMask')} disabled={typeof window.ethereum === 'undefined'}>
-                Connect MetaMask
-              </Button>
-              <Button onClick={() => connectWallet('Phantom')} disabled={typeof window.solana === 'undefined' || !window.solana.isPhantom}>
-                Connect Phantom
-              </Button>
-              <Button onClick={() => connectWallet('Keplr')} disabled={typeof window.keplr === 'undefined'}>
-                Connect Keplr
+          {isManaging ? (
+            <div className="flex flex-col space-y-4">
+              <AddressDisplay family={family} address={account} avatarSize={32} className="text-lg font-medium" />
+              {connectedWallet.switchChain && <NetworkSwitcher />}
+              <WalletBalances />
+              <Button onClick={disconnectWallet} variant="destructive">
+                {interpolate(copy.disconnect, { wallet: connectedWallet.name })}
               </Button>
             </div>
+          ) : (
+            <div className="flex flex-col space-y-4">
+              {families.map((family) => {
+                const familyWallets = wallets.filter((wallet) => wallet.family === family)
+                if (familyWallets.length === 0) return null
+                return (
+                  <div key={family} className="flex flex-col space-y-2">
+                    <p className="text-sm font-medium text-muted-foreground">{copy.families[family]}</p>
+                    {familyWallets.map((wallet) => isMobile && !wallet.detect() && wallet.deepLink ? (
+                      <Button key={wallet.id} variant="outline" onClick={() => openInWallet(wallet)}>
+                        <ExternalLink className="mr-2 h-4 w-4" />
+                        {interpolate(copy.openIn, { app: wallet.deepLink.appName })}
+                      </Button>
+                    ) : (
+                      <Button
+                        key={wallet.id}
+                        onClick={() => connectWallet(wallet)}
+                        disabled={connectedIds.has(wallet.id) || status === 'connecting'}
+                      >
+                        {wallet.icon && (
+                          <Image src={wallet.icon} alt="" width={16} height={16} className="mr-2" unoptimized />
+                        )}
+                        {interpolate(connectedIds.has(wallet.id) ? copy.connected : copy.connect, { wallet: wallet.name })}
+                        {!wallet.detect() && <span className="ml-2 text-xs opacity-70">{copy.notInstalled}</span>}
+                      </Button>
+                    ))}
+                  </div>
+                )
+              })}
+            </div>
           )}
         </DialogContent>
       </Dialog>
     </>
   )
-}
\ No newline at end of file
+}
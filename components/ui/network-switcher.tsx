@@ -0,0 +1,77 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { AlertTriangle } from "lucide-react"
+import { AddressDisplay } from "@/components/ui/address-display"
+import { useWalletErrorToast } from "@/components/ui/wallet-error-toast"
+import { useI18n } from "@/hooks/use-i18n"
+import { useWallet } from "@/hooks/use-wallet"
+import { getSupportedChain, getSupportedChains } from '@/lib/chains'
+import { interpolate } from '@/lib/i18n'
+
+export function NetworkSwitcher() {
+  const { wallet, chain, chainAddresses: addresses, switchChain: requestSwitch } = useWallet()
+  const [pendingChainId, setPendingChainId] = useState<string | null>(null)
+  const { messages: { network: copy } } = useI18n()
+  const showWalletError = useWalletErrorToast()
+  if (!wallet) return null
+
+  const chains = getSupportedChains(wallet.family)
+  const current = chain ? getSupportedChain(wallet.family, chain.id) : undefined
+
+  const switchChain = async (chainId: string) => {
+    setPendingChainId(chainId)
+    try {
+      await requestSwitch(chainId)
+    } catch (error) {
+      console.error(`Failed to switch ${wallet.name} to chain ${chainId}:`, error)
+      showWalletError(error, wallet, () => switchChain(chainId))
+    } finally {
+      setPendingChainId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm">
+        {copy.label}{' '}
+        <span className="font-medium">{current?.name ?? (chain ? interpolate(copy.chain, { id: chain.id }) : copy.unknown)}</span>
+      </p>
+      {chain && !current && (
+        <p className="flex items-center text-sm text-destructive" role="alert">
+          <AlertTriangle className="mr-2 h-4 w-4" />
+          {copy.unsupported}
+        </p>
+      )}
+      {wallet.switchChain && (
+        <div className="grid grid-cols-2 gap-2">
+          {chains.map((option) => {
+            const optionId = option.id
+            return (
+              <Button
+                key={optionId}
+                variant={optionId === chain?.id ? "secondary" : "outline"}
+                size="sm"
+                disabled={optionId === chain?.id || pendingChainId !== null}
+                onClick={() => switchChain(optionId)}
+              >
+                {pendingChainId === optionId ? copy.switching : option.name}
+              </Button>
+            )
+          })}
+        </div>
+      )}
+      {addresses.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {addresses.map(({ chainId, address }) => (
+            <li key={chainId} className="flex justify-between gap-2">
+              <span className="text-muted-foreground">{getSupportedChain(wallet.family, chainId)?.name ?? chainId}</span>
+              <AddressDisplay family={wallet.family} address={address} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+'use client'
+
+import * as React from "react"
+import Image from "next/image"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog"
+import { useI18n } from "@/hooks/use-i18n"
+import type { ContentImage } from "@/lib/content"
+import { formatNumber, interpolate } from "@/lib/i18n"
+
+// Screenshot thumbnails that open in a lightbox, with arrow-key navigation
+export function ProjectGallery({ images }: { images: ContentImage[] }) {
+  const [openIndex, setOpenIndex] = React.useState<number | null>(null)
+  const current = openIndex === null ? null : images[openIndex]
+  const { locale, messages: { project: copy, dialog } } = useI18n()
+
+  const step = (offset: number) => {
+    setOpenIndex((index) => (index === null ? null : (index + offset + images.length) % images.length))
+  }
+
+  const onKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "ArrowLeft") step(-1)
+    if (event.key === "ArrowRight") step(1)
+  }
+
+  return (
+    <>
+      <ul className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {images.map((image, index) => (
+          <li key={`${image.src}:${index}`}>
+            <button
+              type="button"
+              onClick={() => setOpenIndex(index)}
+              className="relative block w-full h-32 overflow-hidden rounded-lg border focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              aria-label={interpolate(copy.viewImage, { image: image.alt })}
+            >
+              <Image src={image.src} alt={image.alt} fill style={{ objectFit: "cover" }} />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <Dialog open={current !== null} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent className="max-w-4xl" closeLabel={dialog.close} onKeyDown={onKeyDown}>
+          {current && openIndex !== null && (
+            <>
+              <DialogTitle>{current.alt}</DialogTitle>
+              <DialogDescription>
+                {interpolate(copy.imageCount, {
+                  index: formatNumber(locale, openIndex + 1),
+                  total: formatNumber(locale, images.length),
+                })}
+              </DialogDescription>
+              <div className="relative w-full h-[60vh]">
+                <Image src={current.src} alt={current.alt} fill style={{ objectFit: "contain" }} />
+              </div>
+              {images.length > 1 && (
+                <div className="flex justify-between">
+                  <Button variant="outline" size="icon" onClick={() => step(-1)} aria-label={copy.previousImage}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={() => step(1)} aria-label={copy.nextImage}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,36 @@
+import { getServerSession } from "@/lib/auth/server"
+import { describeCondition, gates, isGateUnlocked, type Gate, type GateId } from "@/lib/gating"
+import type { Locale } from "@/lib/i18n"
+import { getMessages } from "@/lib/i18n/messages"
+import { LockedSection } from "@/components/ui/locked-section"
+
+interface TokenGateProps {
+  gate: GateId
+  // Picks the catalog for the gate's title and requirement
+  locale: Locale
+  // Shown to visitors who don't meet the gate's condition yet
+  teaser?: string
+  children: React.ReactNode
+}
+
+/**
+ * Renders its children only when the signed-in wallets meet the gate's
+ * on-chain condition. This is a server component, so locked content never
+ * reaches the browser; client pages take it as a prop from their server page.
+ */
+export async function TokenGate({ gate: gateId, locale, teaser, children }: TokenGateProps) {
+  const session = await getServerSession()
+  if (await isGateUnlocked(gateId, session)) return <>{children}</>
+
+  const gate: Gate = gates[gateId]
+  const { gate: copy } = getMessages(locale)
+  return (
+    <LockedSection
+      title={copy.titles[gateId]}
+      teaser={teaser}
+      requirement={describeCondition(gate.condition, copy.conditions)}
+      upgradeUrl={gate.upgradeUrl}
+      signedIn={Boolean(session?.identities.length)}
+    />
+  )
+}
@@ -0,0 +1,38 @@
+'use client'
+
+import { Button } from "@/components/ui/button"
+import { Loader2, RefreshCw } from "lucide-react"
+import { useBalances } from "@/hooks/use-balances"
+import { useI18n } from "@/hooks/use-i18n"
+import { formatTokenAmount, interpolate } from '@/lib/i18n'
+
+export function WalletBalances() {
+  const { balances, error, isLoading, refresh } = useBalances()
+  const { locale, messages: { balances: copy } } = useI18n()
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">{copy.title}</p>
+        <Button variant="ghost" size="icon" onClick={refresh} disabled={isLoading} aria-label={copy.refresh}>
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+        </Button>
+      </div>
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {interpolate(copy.error, { error: error.message })}
+        </p>
+      )}
+      {balances && (
+        <ul className="space-y-1 text-sm">
+          {[balances.native, ...balances.tokens].map((token) => (
+            <li key={token.address ?? token.symbol} className="flex justify-between gap-2">
+              <span className="text-muted-foreground">{token.symbol}</span>
+              <span className="font-mono">{formatTokenAmount(locale, token.formatted)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
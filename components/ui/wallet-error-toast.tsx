@@ -0,0 +1,56 @@
+'use client'
+
+import * as React from "react"
+import { ToastAction } from "@/components/ui/toast"
+import { useI18n } from "@/hooks/use-i18n"
+import { toast } from "@/hooks/use-toast"
+import { interpolate } from '@/lib/i18n'
+import { toWalletError, type WalletAdapter, type WalletErrorCode } from '@/lib/wallets'
+
+type RecoveryAction = 'install' | 'retry' | 'open_wallet' | 'reconnect'
+
+// What the toast offers for each error; the copy is in the `walletErrors` messages
+const recoveryActions: Record<WalletErrorCode, RecoveryAction | null> = {
+  not_installed: 'install',
+  user_rejected: 'retry',
+  request_pending: 'open_wallet',
+  locked: 'open_wallet',
+  unauthorized: 'reconnect',
+  unsupported_chain: null,
+  switch_unsupported: null,
+  network: 'retry',
+  sign_in_failed: 'retry',
+  unknown: 'retry',
+}
+
+/**
+ * Returns `showWalletError`, which shows a toast for a failed wallet request
+ * in the visitor's language. `retry` repeats the request, which for "Open
+ * wallet" and "Reconnect" also brings the wallet's prompt back up.
+ */
+export function useWalletErrorToast() {
+  const { messages: { walletErrors: copy } } = useI18n()
+
+  return React.useCallback((error: unknown, wallet: WalletAdapter | null, retry?: () => void) => {
+    const walletError = toWalletError(error)
+    const values = { wallet: wallet?.name ?? copy.yourWallet, message: walletError.message }
+    const { title, description } = copy[walletError.code]
+    const action = recoveryActions[walletError.code]
+
+    const onAction = action === 'install'
+      ? (wallet?.installUrl ? () => window.open(wallet.installUrl, '_blank', 'noopener,noreferrer') : undefined)
+      : retry
+
+    toast({
+      variant: walletError.code === 'user_rejected' ? 'default' : 'destructive',
+      title: interpolate(title, values),
+      description: interpolate(description, values),
+      action: action && onAction ? (
+        <ToastAction altText={copy.actions[action]} onClick={onAction}>
+          {copy.actions[action]}
+        </ToastAction>
+      ) : undefined,
+    })
+    return walletError
+  }, [copy])
+}
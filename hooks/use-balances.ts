@@ -0,0 +1,48 @@
+"use client"
+
+import * as React from "react"
+import { useWallet } from "@/hooks/use-wallet"
+import { fetchBalances, type AccountBalances } from "@/lib/balances"
+
+// Native and token balances of the connected account, reloaded whenever the account or chain changes
+export function useBalances() {
+  const { family, chain, account, chainAddresses, status } = useWallet()
+  // Kept with the account they belong to, so a switch never shows the previous account's balances
+  const [loaded, setLoaded] = React.useState<{ key: string; balances: AccountBalances } | null>(null)
+  const [error, setError] = React.useState<Error | null>(null)
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [refreshCount, setRefreshCount] = React.useState(0)
+
+  const chainId = chain?.id
+  // Cosmos addresses differ per chain, so prefer the one for the active chain
+  const address = chainAddresses.find((entry) => entry.chainId === chainId)?.address ?? account
+  const key = `${family}:${chainId}:${address}`
+
+  React.useEffect(() => {
+    if (status !== "connected" || !family || !chainId || !address) {
+      setLoaded(null)
+      setError(null)
+      setIsLoading(false)
+      return
+    }
+
+    // A request for an account or chain that is no longer current must not touch the state
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+    fetchBalances(family, chainId, address)
+      .then((result) => !cancelled && setLoaded({ key, balances: result }))
+      .catch((reason) => !cancelled && setError(reason instanceof Error ? reason : new Error(String(reason))))
+      .finally(() => !cancelled && setIsLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [status, family, chainId, address, key, refreshCount])
+
+  const refresh = React.useCallback(() => setRefreshCount((count) => count + 1), [])
+
+  const balances = loaded?.key === key ? loaded.balances : null
+
+  return { balances, error, isLoading, refresh }
+}
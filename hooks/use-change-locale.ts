@@ -0,0 +1,22 @@
+"use client"
+
+import * as React from "react"
+import { usePathname, useRouter } from "next/navigation"
+import { isLocale, localizePath, LOCALE_COOKIE } from "@/lib/i18n"
+import { useI18n } from "@/hooks/use-i18n"
+
+const ONE_YEAR = 60 * 60 * 24 * 365
+
+// Moves to the current page in another language and remembers the choice
+export function useChangeLocale() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const { locale } = useI18n()
+
+  return React.useCallback((next: string) => {
+    if (!isLocale(next) || next === locale) return
+    // Remembered for unprefixed visits, which middleware otherwise routes by Accept-Language
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${ONE_YEAR}; samesite=lax`
+    router.push(`${localizePath(next, pathname)}${window.location.search}${window.location.hash}`)
+  }, [router, pathname, locale])
+}
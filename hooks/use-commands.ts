@@ -0,0 +1,19 @@
+"use client"
+
+import * as React from "react"
+import { getCommands, registerCommands, subscribeCommands, type Command } from "@/lib/commands"
+
+const NO_COMMANDS: Command[] = []
+
+// Everything registered for the command palette
+export function useCommands() {
+  return React.useSyncExternalStore(subscribeCommands, getCommands, () => NO_COMMANDS)
+}
+
+/**
+ * Registers commands while the calling component is mounted. Pass a memoized
+ * array: each new array replaces the previous registration.
+ */
+export function useRegisterCommands(commands: Command[]) {
+  React.useEffect(() => registerCommands(commands), [commands])
+}
@@ -0,0 +1,12 @@
+"use client"
+
+import * as React from "react"
+import { I18nContext } from "@/app/components/i18n-provider"
+
+export function useI18n() {
+  const context = React.useContext(I18nContext)
+  if (!context) {
+    throw new Error("useI18n must be used within an I18nProvider")
+  }
+  return context
+}
@@ -0,0 +1,10 @@
+"use client"
+
+import * as React from "react"
+import { defaultPalette, getPalette, setPalette, subscribePalette } from "@/lib/theme/palettes"
+
+// The active color preset; the server always renders the default
+export function usePalette() {
+  const palette = React.useSyncExternalStore(subscribePalette, getPalette, () => defaultPalette)
+  return { palette, setPalette }
+}
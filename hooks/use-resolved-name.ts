@@ -0,0 +1,28 @@
+"use client"
+
+import * as React from "react"
+import { createIdenticon, resolveName, type ResolvedName } from "@/lib/names"
+import type { WalletFamily } from "@/lib/wallets"
+
+// Name and avatar for an address, falling back to a local identicon when nothing resolves
+export function useResolvedName(family: WalletFamily | null, address: string) {
+  const [resolved, setResolved] = React.useState<ResolvedName | null>(null)
+
+  React.useEffect(() => {
+    setResolved(null)
+    if (!family || !address) return
+
+    let cancelled = false
+    resolveName(family, address).then((result) => !cancelled && setResolved(result))
+    return () => {
+      cancelled = true
+    }
+  }, [family, address])
+
+  const identicon = React.useMemo(() => (address ? createIdenticon(address) : null), [address])
+
+  return {
+    name: resolved?.name ?? null,
+    avatar: resolved?.avatar ?? identicon,
+  }
+}
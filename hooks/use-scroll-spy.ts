@@ -0,0 +1,38 @@
+"use client"
+
+import * as React from "react"
+
+/**
+ * The id of the section currently in view, for highlighting its nav link.
+ * A section counts once it crosses a band around 40% down the viewport; when
+ * several do, the first in document order wins.
+ */
+export function useScrollSpy(ids: string[]): string | null {
+  const [activeId, setActiveId] = React.useState<string | null>(null)
+  const key = ids.join(",")
+
+  React.useEffect(() => {
+    const sectionIds = key.split(",").filter(Boolean)
+    const visible = new Set<string>()
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) visible.add(entry.target.id)
+          else visible.delete(entry.target.id)
+        }
+        const current = sectionIds.find((id) => visible.has(id))
+        // Between sections, keep the last one highlighted
+        if (current) setActiveId(current)
+      },
+      { rootMargin: "-40% 0px -55% 0px" },
+    )
+
+    for (const id of sectionIds) {
+      const element = document.getElementById(id)
+      if (element) observer.observe(element)
+    }
+    return () => observer.disconnect()
+  }, [key])
+
+  return activeId
+}
@@ -0,0 +1,9 @@
+"use client"
+
+import * as React from "react"
+import { getWalletHistory, subscribeWalletHistory } from "@/lib/wallets"
+
+// Connection events recorded in this browser, newest first
+export function useWalletHistory() {
+  return React.useSyncExternalStore(subscribeWalletHistory, getWalletHistory, getWalletHistory)
+}
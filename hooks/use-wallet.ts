@@ -0,0 +1,12 @@
+"use client"
+
+import * as React from "react"
+import { WalletContext } from "@/app/components/wallet-provider"
+
+export function useWallet() {
+  const context = React.useContext(WalletContext)
+  if (!context) {
+    throw new Error("useWallet must be used within a WalletProvider")
+  }
+  return context
+}
@@ -0,0 +1,36 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { CMS_DATA_DIR } from './store'
+import type { AdminUser } from './roles'
+import type { CollectionId } from './collections'
+
+export type AuditAction = 'save_draft' | 'discard_draft' | 'publish' | 'upload'
+
+export interface AuditEntry {
+  at: string
+  address: string
+  role: AdminUser['role']
+  action: AuditAction
+  collection?: CollectionId
+  summary: string
+}
+
+// Append-only, one JSON object per line
+const AUDIT_FILE = path.join(CMS_DATA_DIR, 'audit.jsonl')
+
+export async function recordAudit(user: AdminUser, entry: Omit<AuditEntry, 'at' | 'address' | 'role'>) {
+  const line: AuditEntry = { at: new Date().toISOString(), address: user.address, role: user.role, ...entry }
+  await mkdir(CMS_DATA_DIR, { recursive: true })
+  await appendFile(AUDIT_FILE, `${JSON.stringify(line)}\n`, 'utf8')
+}
+
+// Newest first
+export async function readAudit(limit = 50): Promise<AuditEntry[]> {
+  const text = await readFile(AUDIT_FILE, 'utf8').catch(() => '')
+  return text
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as AuditEntry)
+    .reverse()
+    .slice(0, limit)
+}
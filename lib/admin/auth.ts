@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { SESSION_COOKIE, verifyToken, type WalletSession } from '@/lib/auth/session'
+import { canPublish, getAdminUser, type AdminUser } from './roles'
+
+/**
+ * Resolves the CMS user of an admin API request, or the response to send
+ * instead. Middleware already keeps out other wallets; this also checks the
+ * role an action needs.
+ */
+export async function requireAdminUser(
+  request: NextRequest,
+  { publish = false }: { publish?: boolean } = {},
+): Promise<AdminUser | NextResponse> {
+  const session = await verifyToken<WalletSession>(request.cookies.get(SESSION_COOKIE)?.value)
+  const user = getAdminUser(session)
+  if (!user) return NextResponse.json({ error: 'Not allowed to edit content' }, { status: 403 })
+  if (publish && !canPublish(user.role)) {
+    return NextResponse.json({ error: 'Only admins can publish' }, { status: 403 })
+  }
+  return user
+}
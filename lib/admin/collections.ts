@@ -0,0 +1,48 @@
+import { z } from 'zod'
+import { aboutSchema, projectSchema, teamSchema } from '@/lib/content/schema'
+
+// Projects as the CMS edits them: the slug names the files, the body is the MDX page text
+export const cmsProjectSchema = projectSchema.omit({ order: true }).extend({
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Use lowercase letters, numbers and dashes'),
+  body: z.string().default(''),
+})
+
+export type CmsProject = z.infer<typeof cmsProjectSchema>
+
+export const collections = {
+  projects: { label: 'Projects', item: cmsProjectSchema, key: (item: CmsProject) => item.slug },
+  team: { label: 'Team', item: teamSchema.element, key: (item: z.infer<typeof teamSchema.element>) => item.name },
+  about: { label: 'About', item: aboutSchema.element, key: (item: z.infer<typeof aboutSchema.element>) => item.title },
+} as const
+
+export type CollectionId = keyof typeof collections
+
+export interface CollectionItems {
+  projects: CmsProject[]
+  team: z.infer<typeof teamSchema>
+  about: z.infer<typeof aboutSchema>
+}
+
+export const collectionIds = Object.keys(collections) as CollectionId[]
+
+// Own keys only, so names like "toString" from the prototype are not collections
+export function isCollectionId(value: string): value is CollectionId {
+  return Object.hasOwn(collections, value)
+}
+
+export function itemKey<C extends CollectionId>(collection: C, item: CollectionItems[C][number]): string {
+  return (collections[collection].key as (item: CollectionItems[C][number]) => string)(item)
+}
+
+// Validates a whole collection, including that keys (slug, name, title) are unique
+export function parseCollection<C extends CollectionId>(collection: C, items: unknown) {
+  const schema = z.array(collections[collection].item).superRefine((parsed, context) => {
+    const seen = new Set<string>()
+    parsed.forEach((item, index) => {
+      const key = itemKey(collection, item as CollectionItems[C][number])
+      if (seen.has(key)) context.addIssue({ code: z.ZodIssueCode.custom, path: [index], message: `Duplicate entry "${key}"` })
+      seen.add(key)
+    })
+  })
+  return schema.safeParse(items) as z.SafeParseReturnType<unknown, CollectionItems[C]>
+}
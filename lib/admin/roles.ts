@@ -0,0 +1,36 @@
+import type { WalletSession } from '@/lib/auth/session'
+
+// Editors change drafts; admins can also publish them and read the audit log
+export type AdminRole = 'admin' | 'editor'
+
+export interface AdminUser {
+  address: string
+  role: AdminRole
+}
+
+// Comma-separated addresses, e.g. ADMIN_ADDRESSES=0xabc...,cosmos1...
+const parseAddresses = (value: string | undefined) => (value ?? '')
+  .split(',')
+  .map((address) => address.trim())
+  .filter(Boolean)
+
+export const roleAddresses: Record<AdminRole, string[]> = {
+  admin: parseAddresses(process.env.ADMIN_ADDRESSES),
+  editor: parseAddresses(process.env.EDITOR_ADDRESSES),
+}
+
+function hasAddress(addresses: string[], address: string) {
+  return addresses.some((candidate) => candidate.toLowerCase() === address.toLowerCase())
+}
+
+// The highest role any identity in the session holds
+export function getAdminUser(session: WalletSession | null): AdminUser | null {
+  const identities = session?.identities ?? []
+  for (const role of ['admin', 'editor'] as const) {
+    const identity = identities.find(({ address }) => hasAddress(roleAddresses[role], address))
+    if (identity) return { address: identity.address, role }
+  }
+  return null
+}
+
+export const canPublish = (role: AdminRole) => role === 'admin'
@@ -0,0 +1,134 @@
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { checkProjectTeams, getContent, getProjectBody, invalidateContent } from '@/lib/content'
+import { cmsProjectSchema, collectionIds, itemKey, parseCollection, type CmsProject, type CollectionId, type CollectionItems } from './collections'
+
+export const CMS_DATA_DIR = path.resolve(process.env.CMS_DATA_DIR || 'data/cms')
+const DRAFTS_DIR = path.join(CMS_DATA_DIR, 'drafts')
+const CONTENT_DIR = path.join(process.cwd(), 'content')
+
+export interface CollectionState<C extends CollectionId = CollectionId> {
+  items: CollectionItems[C]
+  // The items are an unpublished draft rather than what the site shows
+  hasDraft: boolean
+}
+
+export type CmsState = { [C in CollectionId]: CollectionState<C> }
+
+const draftFile = (collection: CollectionId) => path.join(DRAFTS_DIR, `${collection}.json`)
+
+function liveItems<C extends CollectionId>(collection: C): CollectionItems[C] {
+  // Always from the files, never a copy cached before the last publish
+  invalidateContent()
+  const content = getContent()
+  const items: CollectionItems = {
+    // Parsing drops the order; in the CMS it is the position in the list
+    projects: content.projects.map((project) => cmsProjectSchema.parse({ ...project, body: getProjectBody(project.slug) ?? '' })),
+    team: content.team,
+    about: content.about,
+  }
+  return items[collection]
+}
+
+async function readDraft<C extends CollectionId>(collection: C): Promise<CollectionItems[C] | null> {
+  const text = await readFile(draftFile(collection), 'utf8').catch(() => null)
+  if (text === null) return null
+  const parsed = parseCollection(collection, JSON.parse(text))
+  return parsed.success ? parsed.data : null
+}
+
+export async function readCollection<C extends CollectionId>(collection: C): Promise<CollectionState<C>> {
+  const draft = await readDraft(collection)
+  return draft ? { items: draft, hasDraft: true } : { items: liveItems(collection), hasDraft: false }
+}
+
+export async function readCmsState(): Promise<CmsState> {
+  const [projects, team, about] = await Promise.all(collectionIds.map((collection) => readCollection(collection)))
+  return { projects, team, about } as CmsState
+}
+
+export async function saveDraft<C extends CollectionId>(collection: C, items: CollectionItems[C]) {
+  await mkdir(DRAFTS_DIR, { recursive: true })
+  await writeFile(draftFile(collection), `${JSON.stringify(items, null, 2)}\n`, 'utf8')
+}
+
+export async function discardDraft(collection: CollectionId) {
+  await rm(draftFile(collection), { force: true })
+}
+
+const writeJson = (file: string, data: unknown) => writeFile(file, `${JSON.stringify(data, null, 2)}\n`, 'utf8')
+
+async function writeProjects(projects: CmsProject[]) {
+  const dir = path.join(CONTENT_DIR, 'projects')
+  const slugs = new Set(projects.map(({ slug }) => slug))
+
+  // Files of removed projects go first, so a renamed slug doesn't leave its old page behind
+  for (const file of await readdir(dir)) {
+    if (!slugs.has(file.replace(/\.(json|mdx)$/, ''))) await rm(path.join(dir, file))
+  }
+
+  await Promise.all(projects.map(async ({ slug, body, ...project }, index) => {
+    const { title, summary, ...rest } = project
+    await writeJson(path.join(dir, `${slug}.json`), { title, summary, order: index + 1, ...rest })
+    if (body.trim()) {
+      await writeFile(path.join(dir, `${slug}.mdx`), body.endsWith('\n') ? body : `${body}\n`, 'utf8')
+    } else {
+      await rm(path.join(dir, `${slug}.mdx`), { force: true })
+    }
+  }))
+}
+
+/**
+ * Writes a collection's draft to the content/ files the site reads. Projects
+ * list team members by name, so both sides are checked against the
+ * published other half first; this throws ContentError when they disagree.
+ */
+export async function publishCollection(collection: CollectionId) {
+  const draft = await readDraft(collection)
+  if (!draft) return
+
+  const content = getContent()
+  switch (collection) {
+    case 'projects': {
+      const projects = draft as CollectionItems['projects']
+      checkProjectTeams(projects, content.team)
+      await writeProjects(projects)
+      break
+    }
+    case 'team':
+      checkProjectTeams(content.projects, draft as CollectionItems['team'])
+      await writeJson(path.join(CONTENT_DIR, 'team.json'), draft)
+      break
+    case 'about':
+      await writeJson(path.join(CONTENT_DIR, 'about.json'), draft)
+      break
+  }
+
+  await discardDraft(collection)
+  invalidateContent()
+}
+
+// A short description of a draft change for the audit log
+export function describeChanges<C extends CollectionId>(collection: C, before: CollectionItems[C], after: CollectionItems[C]) {
+  const beforeByKey = new Map(before.map((item) => [itemKey(collection, item), JSON.stringify(item)]))
+  const afterKeys = after.map((item) => itemKey(collection, item))
+
+  const added = afterKeys.filter((key) => !beforeByKey.has(key))
+  const removed = Array.from(beforeByKey.keys()).filter((key) => !afterKeys.includes(key))
+  const edited = after
+    .filter((item) => {
+      const previous = beforeByKey.get(itemKey(collection, item))
+      return previous !== undefined && previous !== JSON.stringify(item)
+    })
+    .map((item) => itemKey(collection, item))
+  const kept = Array.from(beforeByKey.keys()).filter((key) => afterKeys.includes(key))
+  const reordered = kept.join('\n') !== afterKeys.filter((key) => beforeByKey.has(key)).join('\n')
+
+  const parts = [
+    added.length > 0 && `added ${added.join(', ')}`,
+    edited.length > 0 && `edited ${edited.join(', ')}`,
+    removed.length > 0 && `removed ${removed.join(', ')}`,
+    reordered && 'reordered',
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join('; ') : 'no changes'
+}
@@ -0,0 +1,59 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+// Outside public/, since Next.js only serves files that exist there at build time
+const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || 'data/uploads')
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024
+
+// No SVG: it can carry scripts
+const imageTypes: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+}
+
+// Leading bytes of each format; `null` matches any byte (the RIFF chunk size in WebP)
+const signatures: [string, (number | null)[]][] = [
+  ['image/png', [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  ['image/jpeg', [0xff, 0xd8, 0xff]],
+  ['image/webp', [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50]],
+  ['image/gif', [0x47, 0x49, 0x46, 0x38, 0x37, 0x61]],
+  ['image/gif', [0x47, 0x49, 0x46, 0x38, 0x39, 0x61]],
+]
+
+// The browser's `file.type` comes from the file name, so the contents decide what was uploaded
+function sniffImageType(data: Uint8Array): string | undefined {
+  return signatures.find(([, bytes]) => bytes.every((byte, index) => byte === null || data[index] === byte))?.[0]
+}
+
+const FILE_NAME = /^[0-9a-f-]{36}\.(png|jpg|webp|gif)$/
+
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UploadError'
+  }
+}
+
+// Stores an image and returns the URL it is served from
+export async function saveUpload(file: File): Promise<string> {
+  if (file.size > MAX_UPLOAD_BYTES) throw new UploadError('Images can be at most 5 MB')
+  const data = new Uint8Array(await file.arrayBuffer())
+  const type = sniffImageType(data)
+  if (!type) throw new UploadError('Only PNG, JPEG, WebP and GIF images can be uploaded')
+
+  const name = `${crypto.randomUUID()}.${imageTypes[type]}`
+  await mkdir(UPLOAD_DIR, { recursive: true })
+  await writeFile(path.join(UPLOAD_DIR, name), data)
+  return `/api/uploads/${name}`
+}
+
+export async function readUpload(name: string): Promise<{ data: Uint8Array; type: string } | null> {
+  if (!FILE_NAME.test(name)) return null
+  const data = await readFile(path.join(UPLOAD_DIR, name)).catch(() => null)
+  if (!data) return null
+  const extension = name.split('.').pop()
+  const type = Object.keys(imageTypes).find((candidate) => imageTypes[candidate] === extension) ?? 'application/octet-stream'
+  return { data: new Uint8Array(data), type }
+}
@@ -0,0 +1,41 @@
+import type { WalletFamily, WalletSession } from './session'
+
+// What a route asks of the visitor's wallet session
+export type AccessRule =
+  | { type: 'wallet' }
+  | { type: 'family'; families: WalletFamily[] }
+  | { type: 'allowlist'; addresses: string[] }
+
+export interface ProtectedRoute {
+  // Matches the path itself and everything below it
+  path: string
+  rule: AccessRule
+}
+
+export type AccessDenial = 'unauthenticated' | 'wrong_family' | 'not_allowlisted'
+
+export type AccessResult = { ok: true } | { ok: false; reason: AccessDenial }
+
+export function matchProtectedRoute(routes: ProtectedRoute[], pathname: string): ProtectedRoute | undefined {
+  return routes.find(({ path }) => pathname === path || pathname.startsWith(`${path.replace(/\/$/, '')}/`))
+}
+
+// Any one identity in the session can satisfy the rule
+export function checkAccess(rule: AccessRule, session: WalletSession | null): AccessResult {
+  if (!session || session.identities.length === 0) return { ok: false, reason: 'unauthenticated' }
+
+  switch (rule.type) {
+    case 'wallet':
+      return { ok: true }
+    case 'family':
+      return session.identities.some(({ family }) => rule.families.includes(family))
+        ? { ok: true }
+        : { ok: false, reason: 'wrong_family' }
+    case 'allowlist': {
+      const allowed = new Set(rule.addresses.map((address) => address.toLowerCase()))
+      return session.identities.some(({ address }) => allowed.has(address.toLowerCase()))
+        ? { ok: true }
+        : { ok: false, reason: 'not_allowlisted' }
+    }
+  }
+}
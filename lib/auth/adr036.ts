@@ -0,0 +1,40 @@
+import { sha256 } from '@noble/hashes/sha2'
+import { ripemd160 } from '@noble/hashes/legacy'
+import { base64, bech32, utf8 } from '@scure/base'
+
+// Cosmos account address for a compressed secp256k1 public key
+export function cosmosAddress(prefix: string, publicKey: Uint8Array): string {
+  return bech32.encode(prefix, bech32.toWords(ripemd160(sha256(publicKey))))
+}
+
+/**
+ * SHA-256 of the ADR-036 amino StdSignDoc that wraps `data`, i.e. the bytes
+ * Keplr's signArbitrary signs.
+ */
+export function adr036SignDocHash(signer: string, data: string): Uint8Array {
+  const signDoc = sortedJson({
+    account_number: '0',
+    chain_id: '',
+    fee: { amount: [], gas: '0' },
+    memo: '',
+    msgs: [
+      {
+        type: 'sign/MsgSignData',
+        value: { data: base64.encode(utf8.decode(data)), signer },
+      },
+    ],
+    sequence: '0',
+  })
+  return sha256(utf8.decode(signDoc))
+}
+
+function sortedJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(sortedJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${sortedJson((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
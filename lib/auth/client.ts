@@ -0,0 +1,66 @@
+import { SignInError } from '@/lib/wallets/errors'
+import { createSignInMessage, SIGN_IN_STATEMENT } from './message'
+import type { WalletFamily, WalletSession } from './session'
+
+export interface SignedChallenge {
+  signature: string
+  publicKey?: string
+}
+
+export interface SignInRequest {
+  walletType: string
+  family: WalletFamily
+  address: string
+  chainId: string
+  sign: (message: string) => Promise<SignedChallenge>
+}
+
+const CHALLENGE_TTL = 5 * 60 * 1000
+
+export async function signIn({ walletType, family, address, chainId, sign }: SignInRequest): Promise<WalletSession> {
+  const nonceResponse = await fetch('/api/auth/nonce', { cache: 'no-store' })
+  if (!nonceResponse.ok) throw new SignInError('Could not start sign-in')
+  const { nonce } = (await nonceResponse.json()) as { nonce: string }
+
+  const issuedAt = new Date()
+  const message = createSignInMessage({
+    family,
+    domain: window.location.host,
+    address,
+    uri: window.location.origin,
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime: new Date(issuedAt.getTime() + CHALLENGE_TTL),
+    statement: SIGN_IN_STATEMENT,
+  })
+
+  const { signature, publicKey } = await sign(message)
+
+  const verifyResponse = await fetch('/api/auth/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ walletType, family, address, message, signature, publicKey }),
+  })
+  const result = (await verifyResponse.json()) as { session?: WalletSession; error?: string }
+  if (!verifyResponse.ok || !result.session) {
+    throw new SignInError(result.error ?? 'Sign-in failed')
+  }
+  return result.session
+}
+
+// Ends the session for one wallet, or for all of them when no wallet is given
+export async function signOut(walletType?: string): Promise<WalletSession | null> {
+  const query = walletType ? `?${new URLSearchParams({ walletType })}` : ''
+  const response = await fetch(`/api/auth/session${query}`, { method: 'DELETE' })
+  if (!response.ok) throw new Error('Sign-out failed')
+  const { session } = (await response.json()) as { session: WalletSession | null }
+  return session
+}
+
+export async function fetchSession(): Promise<WalletSession | null> {
+  const response = await fetch('/api/auth/session', { cache: 'no-store' })
+  if (!response.ok) return null
+  const { session } = (await response.json()) as { session: WalletSession | null }
+  return session
+}
@@ -0,0 +1,105 @@
+import { createSiweMessage, parseSiweMessage } from 'viem/siwe'
+import { getAddress } from 'viem'
+import type { WalletFamily } from './session'
+
+export interface SignInMessage {
+  family: WalletFamily
+  domain: string
+  address: string
+  uri: string
+  chainId: string
+  nonce: string
+  issuedAt: Date
+  expirationTime?: Date
+  statement?: string
+}
+
+export const SIGN_IN_STATEMENT = 'Sign in to prove you own this wallet. This does not send a transaction or cost any fees.'
+
+const accountLabel: Record<WalletFamily, string> = {
+  evm: 'Ethereum',
+  solana: 'Solana',
+  cosmos: 'Cosmos',
+}
+
+// EVM wallets get a real EIP-4361 message; Solana and Cosmos reuse the same
+// layout so the user sees a familiar prompt in every wallet
+export function createSignInMessage(message: SignInMessage): string {
+  if (message.family === 'evm') {
+    return createSiweMessage({
+      domain: message.domain,
+      address: getAddress(message.address),
+      uri: message.uri,
+      version: '1',
+      chainId: Number(message.chainId),
+      nonce: message.nonce,
+      issuedAt: message.issuedAt,
+      expirationTime: message.expirationTime,
+      statement: message.statement,
+    })
+  }
+
+  const lines = [
+    `${message.domain} wants you to sign in with your ${accountLabel[message.family]} account:`,
+    message.address,
+    '',
+  ]
+  if (message.statement) lines.push(message.statement, '')
+  lines.push(
+    `URI: ${message.uri}`,
+    'Version: 1',
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt.toISOString()}`,
+  )
+  if (message.expirationTime) lines.push(`Expiration Time: ${message.expirationTime.toISOString()}`)
+  return lines.join('\n')
+}
+
+export function parseSignInMessage(family: WalletFamily, text: string): SignInMessage | null {
+  if (family === 'evm') {
+    const parsed = parseSiweMessage(text)
+    if (!parsed.domain || !parsed.address || !parsed.uri || !parsed.nonce || !parsed.issuedAt || !parsed.chainId) {
+      return null
+    }
+    return {
+      family,
+      domain: parsed.domain,
+      address: parsed.address,
+      uri: parsed.uri,
+      chainId: String(parsed.chainId),
+      nonce: parsed.nonce,
+      issuedAt: parsed.issuedAt,
+      expirationTime: parsed.expirationTime,
+      statement: parsed.statement,
+    }
+  }
+
+  const [header, address, ...rest] = text.split('\n')
+  const domain = header?.match(/^(\S+) wants you to sign in with your \w+ account:$/)?.[1]
+  if (!domain || !address) return null
+
+  const fields = new Map<string, string>()
+  for (const line of rest) {
+    const match = line.match(/^(URI|Version|Chain ID|Nonce|Issued At|Expiration Time): (.+)$/)
+    if (match) fields.set(match[1], match[2])
+  }
+
+  const uri = fields.get('URI')
+  const chainId = fields.get('Chain ID')
+  const nonce = fields.get('Nonce')
+  const issuedAt = fields.get('Issued At')
+  if (!uri || !chainId || !nonce || !issuedAt) return null
+
+  const expirationTime = fields.get('Expiration Time')
+  return {
+    family,
+    domain,
+    address,
+    uri,
+    chainId,
+    nonce,
+    issuedAt: new Date(issuedAt),
+    expirationTime: expirationTime ? new Date(expirationTime) : undefined,
+  }
+}
@@ -0,0 +1,15 @@
+// Nonces already used to sign in, until they would have expired anyway. Kept in
+// memory: enough for a single server; use a shared store when scaling out.
+const consumed = new Map<string, number>()
+
+// Marks the nonce as used; false if it already was
+export function consumeNonce(nonce: string, expiresAt: number): boolean {
+  const now = Date.now()
+  consumed.forEach((until, key) => {
+    if (until <= now) consumed.delete(key)
+  })
+
+  if (consumed.has(nonce)) return false
+  consumed.set(nonce, expiresAt)
+  return true
+}
@@ -0,0 +1,19 @@
+import { roleAddresses } from '@/lib/admin/roles'
+import type { ProtectedRoute } from './access'
+
+// Where middleware sends visitors whose session doesn't satisfy a route's rule
+export const CONNECT_PATH = '/connect'
+
+// Anyone with a CMS role; the admin pages and API check which role
+const cmsAddresses = [...roleAddresses.admin, ...roleAddresses.editor]
+
+/**
+ * Routes that need a wallet session, checked in order by `middleware.ts`.
+ * The first matching path wins, so list more specific paths first.
+ * Paths are written without the locale prefix, e.g. '/account' covers '/hi/account'.
+ */
+export const protectedRoutes: ProtectedRoute[] = [
+  { path: '/admin', rule: { type: 'allowlist', addresses: cmsAddresses } },
+  { path: '/api/admin', rule: { type: 'allowlist', addresses: cmsAddresses } },
+  { path: '/account', rule: { type: 'wallet' } },
+]
@@ -0,0 +1,7 @@
+import { cookies } from 'next/headers'
+import { SESSION_COOKIE, verifyToken, type WalletSession } from './session'
+
+// The wallet session of the current request, for server components
+export function getServerSession(): Promise<WalletSession | null> {
+  return verifyToken<WalletSession>(cookies().get(SESSION_COOKIE)?.value)
+}
@@ -0,0 +1,115 @@
+import { base64urlnopad, bech32, utf8 } from '@scure/base'
+
+export type WalletFamily = 'evm' | 'solana' | 'cosmos'
+
+// One wallet address the user has proven ownership of
+export interface WalletIdentity {
+  address: string
+  walletType: string
+  family: WalletFamily
+  chainId: string
+  verifiedAt: number
+}
+
+// A session can hold several identities, e.g. an EVM, a Solana and a Cosmos account
+export interface WalletSession {
+  identities: WalletIdentity[]
+  issuedAt: number
+  expiresAt: number
+}
+
+export const SESSION_COOKIE = 'wallet_session'
+export const NONCE_COOKIE = 'wallet_nonce'
+
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 7 // 7 days, in seconds
+export const NONCE_MAX_AGE = 60 * 5
+
+const DEV_SECRET = 'insecure-development-secret-do-not-use-in-production'
+
+let keyPromise: Promise<CryptoKey> | null = null
+
+// Web Crypto keeps this usable from both route handlers and edge middleware
+function getKey() {
+  if (!keyPromise) {
+    const secret = process.env.AUTH_SECRET
+    if (!secret && process.env.NODE_ENV === 'production') {
+      throw new Error('AUTH_SECRET must be set to sign wallet sessions')
+    }
+    keyPromise = crypto.subtle.importKey(
+      'raw',
+      utf8.decode(secret ?? DEV_SECRET),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify'],
+    )
+  }
+  return keyPromise
+}
+
+export async function signToken(payload: object): Promise<string> {
+  const body = base64urlnopad.encode(utf8.decode(JSON.stringify(payload)))
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), utf8.decode(body))
+  return `${body}.${base64urlnopad.encode(new Uint8Array(signature))}`
+}
+
+export async function verifyToken<T extends { expiresAt: number }>(token: string | undefined): Promise<T | null> {
+  if (!token) return null
+  const [body, signature] = token.split('.')
+  if (!body || !signature) return null
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getKey(),
+      base64urlnopad.decode(signature),
+      utf8.decode(body),
+    )
+    if (!valid) return null
+
+    const payload = JSON.parse(utf8.encode(base64urlnopad.decode(body))) as T
+    return payload.expiresAt > Date.now() ? payload : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * A new session, or `previous` with a different set of identities. Identities
+ * added to an existing session share its original expiry, so signing in with
+ * another wallet never extends the ones proven earlier.
+ */
+export function createSession(identities: WalletIdentity[], previous?: WalletSession | null): WalletSession {
+  if (previous) return { ...previous, identities }
+  const issuedAt = Date.now()
+  return { identities, issuedAt, expiresAt: issuedAt + SESSION_MAX_AGE * 1000 }
+}
+
+// The key hash a bech32 address encodes, or null if it isn't one
+function bech32Data(address: string): string | null {
+  try {
+    return bech32.decode(address as `${string}1${string}`).words.join(',')
+  } catch {
+    return null
+  }
+}
+
+// One Cosmos key has an address per chain prefix (cosmos1…, osmo1…), and proving
+// any of them proves the key, so those are compared without the prefix
+function isSameAddress(identity: WalletIdentity, address: string) {
+  if (identity.address.toLowerCase() === address.toLowerCase()) return true
+  if (identity.family !== 'cosmos') return false
+  const data = bech32Data(identity.address)
+  return data !== null && data === bech32Data(address)
+}
+
+export function findIdentity(session: WalletSession | null, walletType: string, address: string) {
+  return session?.identities.find((identity) => identity.walletType === walletType && isSameAddress(identity, address))
+}
+
+export const sessionCookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge,
+})
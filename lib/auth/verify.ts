@@ -0,0 +1,96 @@
+import { verifyMessage, isAddressEqual, isAddress, type Hex } from 'viem'
+import { ed25519 } from '@noble/curves/ed25519'
+import { secp256k1 } from '@noble/curves/secp256k1'
+import { base58, base64, bech32, utf8 } from '@scure/base'
+import { adr036SignDocHash, cosmosAddress } from './adr036'
+import { parseSignInMessage, type SignInMessage } from './message'
+import type { WalletFamily } from './session'
+
+export interface SignInProof {
+  walletType: string
+  family: WalletFamily
+  address: string
+  message: string
+  // hex for EVM, base58 for Solana, base64 for Cosmos
+  signature: string
+  // base64 secp256k1 public key, Cosmos only
+  publicKey?: string
+}
+
+export type SignInResult =
+  | { ok: true; message: SignInMessage }
+  | { ok: false; error: string }
+
+// Tolerated difference between the wallet's clock and the server's
+const CLOCK_SKEW = 60 * 1000
+
+function uriHost(uri: string): string | null {
+  try {
+    return new URL(uri).host
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Checks a signed sign-in message against the challenge this server issued:
+ * the request's host as both domain and URI, the nonce, and an issue time
+ * between the nonce's creation and now.
+ */
+export async function verifySignIn(
+  proof: SignInProof,
+  expected: { domain: string; nonce: string; issuedAfter: number },
+): Promise<SignInResult> {
+  const message = parseSignInMessage(proof.family, proof.message)
+  if (!message) return { ok: false, error: 'Malformed sign-in message' }
+
+  const now = Date.now()
+  if (message.domain !== expected.domain) return { ok: false, error: 'Domain mismatch' }
+  if (uriHost(message.uri) !== expected.domain) return { ok: false, error: 'URI mismatch' }
+  if (message.nonce !== expected.nonce) return { ok: false, error: 'Nonce mismatch' }
+  const issuedAt = message.issuedAt.getTime()
+  if (Number.isNaN(issuedAt) || issuedAt < expected.issuedAfter - CLOCK_SKEW || issuedAt > now + CLOCK_SKEW) {
+    return { ok: false, error: 'Sign-in message has an invalid issue time' }
+  }
+  if (message.expirationTime && message.expirationTime.getTime() < now) {
+    return { ok: false, error: 'Sign-in message expired' }
+  }
+
+  try {
+    const valid = await verifySignature(proof, message)
+    return valid ? { ok: true, message } : { ok: false, error: 'Invalid signature' }
+  } catch {
+    return { ok: false, error: 'Invalid signature' }
+  }
+}
+
+async function verifySignature(proof: SignInProof, message: SignInMessage): Promise<boolean> {
+  switch (proof.family) {
+    case 'evm':
+      if (!isAddress(proof.address) || !isAddressEqual(proof.address, message.address as Hex)) return false
+      return verifyMessage({
+        address: proof.address,
+        message: proof.message,
+        signature: proof.signature as Hex,
+      })
+    case 'solana':
+      if (proof.address !== message.address) return false
+      return ed25519.verify(
+        base58.decode(proof.signature),
+        utf8.decode(proof.message),
+        base58.decode(proof.address),
+      )
+    case 'cosmos':
+      if (proof.address !== message.address || !proof.publicKey) return false
+      return verifyAdr036(proof.address, proof.message, proof.signature, proof.publicKey)
+  }
+}
+
+// Keplr's signArbitrary signs an ADR-036 amino StdSignDoc wrapping the data
+function verifyAdr036(address: string, data: string, signature: string, publicKey: string): boolean {
+  const pubKeyBytes = base64.decode(publicKey)
+  const { prefix } = bech32.decode(address as `${string}1${string}`)
+  if (cosmosAddress(prefix, pubKeyBytes) !== address) return false
+
+  return secp256k1.verify(base64.decode(signature), adr036SignDocHash(address, data), pubKeyBytes, { lowS: false })
+}
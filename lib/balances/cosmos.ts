@@ -0,0 +1,49 @@
+import { formatUnits } from 'viem'
+import { base64, utf8 } from '@scure/base'
+import { getCosmosChain } from '@/lib/chains/cosmos'
+import { cw20Tokens } from './tokens'
+import { fetchTokenBalances } from './settle'
+import type { AccountBalances } from './types'
+
+export async function cosmosRest<T>(baseUrl: string, path: string): Promise<T> {
+  const response = await fetch(`${baseUrl}${path}`)
+  if (!response.ok) throw new Error(`Cosmos REST ${path} failed with ${response.status}`)
+  return (await response.json()) as T
+}
+
+function smartQuery<T>(baseUrl: string, contract: string, query: object) {
+  const encoded = encodeURIComponent(base64.encode(utf8.decode(JSON.stringify(query))))
+  return cosmosRest<{ data: T }>(baseUrl, `/cosmwasm/wasm/v1/contract/${contract}/smart/${encoded}`)
+}
+
+export async function fetchCosmosBalances(chainId: string, address: string): Promise<AccountBalances> {
+  const chain = getCosmosChain(chainId)
+  if (!chain) throw new Error(`Unsupported Cosmos chain: ${chainId}`)
+
+  const { coinDenom, coinMinimalDenom, coinDecimals } = chain.stakeCurrency
+  const { balance } = await cosmosRest<{ balance?: { amount: string } }>(
+    chain.rest,
+    `/cosmos/bank/v1beta1/balances/${address}/by_denom?denom=${encodeURIComponent(coinMinimalDenom)}`,
+  )
+  const amount = BigInt(balance?.amount ?? '0')
+
+  const tokens = await fetchTokenBalances(cw20Tokens[chainId] ?? [], async (token) => {
+    const [{ data: held }, { data: info }] = await Promise.all([
+      smartQuery<{ balance: string }>(chain.rest, token.address, { balance: { address } }),
+      smartQuery<{ decimals: number }>(chain.rest, token.address, { token_info: {} }),
+    ])
+    const tokenAmount = BigInt(held.balance)
+    return {
+      symbol: token.symbol,
+      address: token.address,
+      amount: tokenAmount,
+      decimals: info.decimals,
+      formatted: formatUnits(tokenAmount, info.decimals),
+    }
+  })
+
+  return {
+    native: { symbol: coinDenom, amount, decimals: coinDecimals, formatted: formatUnits(amount, coinDecimals) },
+    tokens,
+  }
+}
@@ -0,0 +1,36 @@
+import { createPublicClient, erc20Abi, formatUnits, http, type Address } from 'viem'
+import { getEvmChain } from '@/lib/chains/evm'
+import { evmTokens } from './tokens'
+import { fetchTokenBalances } from './settle'
+import type { AccountBalances } from './types'
+
+export async function fetchEvmBalances(chainId: string, address: string): Promise<AccountBalances> {
+  const chain = getEvmChain(chainId)
+  if (!chain) throw new Error(`Unsupported EVM chain: ${chainId}`)
+
+  const client = createPublicClient({ chain, transport: http() })
+  const owner = address as Address
+  const { decimals, symbol } = chain.nativeCurrency
+  const amount = await client.getBalance({ address: owner })
+
+  // Plain reads rather than multicall, which local chains don't have deployed
+  const tokens = await fetchTokenBalances(evmTokens[chainId] ?? [], async (token) => {
+    const contract = { address: token.address as Address, abi: erc20Abi }
+    const [balance, tokenDecimals] = await Promise.all([
+      client.readContract({ ...contract, functionName: 'balanceOf', args: [owner] }),
+      client.readContract({ ...contract, functionName: 'decimals' }),
+    ])
+    return {
+      symbol: token.symbol,
+      address: token.address,
+      amount: balance,
+      decimals: tokenDecimals,
+      formatted: formatUnits(balance, tokenDecimals),
+    }
+  })
+
+  return {
+    native: { symbol, amount, decimals, formatted: formatUnits(amount, decimals) },
+    tokens,
+  }
+}
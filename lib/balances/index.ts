@@ -0,0 +1,18 @@
+import type { WalletFamily } from '@/lib/auth/session'
+import { fetchEvmBalances } from './evm'
+import { fetchSolanaBalances } from './solana'
+import { fetchCosmosBalances } from './cosmos'
+import type { AccountBalances } from './types'
+
+export function fetchBalances(family: WalletFamily, chainId: string, address: string): Promise<AccountBalances> {
+  switch (family) {
+    case 'evm':
+      return fetchEvmBalances(chainId, address)
+    case 'solana':
+      return fetchSolanaBalances(chainId, address)
+    case 'cosmos':
+      return fetchCosmosBalances(chainId, address)
+  }
+}
+
+export type { AccountBalances, TokenBalance, TokenConfig } from './types'
@@ -0,0 +1,14 @@
+import type { TokenBalance, TokenConfig } from './types'
+
+// Loads each token on its own, so one bad contract or mint only drops that token from the list
+export async function fetchTokenBalances(
+  tokens: TokenConfig[],
+  fetchToken: (token: TokenConfig) => Promise<TokenBalance>,
+): Promise<TokenBalance[]> {
+  const results = await Promise.allSettled(tokens.map(fetchToken))
+  return results.flatMap((result, index) => {
+    if (result.status === 'fulfilled') return [result.value]
+    console.error(`Failed to load the ${tokens[index].symbol} balance:`, result.reason)
+    return []
+  })
+}
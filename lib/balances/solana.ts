@@ -0,0 +1,68 @@
+import { formatUnits } from 'viem'
+import { getSolanaCluster } from '@/lib/chains/solana'
+import { splTokens } from './tokens'
+import { fetchTokenBalances } from './settle'
+import type { AccountBalances } from './types'
+
+const LAMPORTS_DECIMALS = 9
+
+export async function solanaRpc<T>(url: string, method: string, params: unknown[]): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+  })
+  if (!response.ok) throw new Error(`Solana RPC ${method} failed with ${response.status}`)
+  const { result, error } = (await response.json()) as { result?: T; error?: { message: string } }
+  if (error) throw new Error(`Solana RPC ${method} failed: ${error.message}`)
+  return result as T
+}
+
+export interface ParsedTokenAccounts {
+  value: {
+    account: {
+      data: { parsed: { info: { tokenAmount: { amount: string; decimals: number } } } }
+    }
+  }[]
+}
+
+export async function fetchSolanaBalances(clusterId: string, address: string): Promise<AccountBalances> {
+  const cluster = getSolanaCluster(clusterId)
+  if (!cluster) throw new Error(`Unsupported Solana cluster: ${clusterId}`)
+
+  const { value: lamports } = await solanaRpc<{ value: number }>(cluster.rpc, 'getBalance', [address])
+  const amount = BigInt(lamports)
+
+  const tokens = await fetchTokenBalances(splTokens[clusterId] ?? [], async (token) => {
+    const { value: accounts } = await solanaRpc<ParsedTokenAccounts>(cluster.rpc, 'getTokenAccountsByOwner', [
+      address,
+      { mint: token.address },
+      { encoding: 'jsonParsed' },
+    ])
+    // An owner can hold the same mint in several token accounts
+    let balance = BigInt(0)
+    let decimals = 0
+    for (const { account } of accounts) {
+      const { tokenAmount } = account.data.parsed.info
+      balance += BigInt(tokenAmount.amount)
+      decimals = tokenAmount.decimals
+    }
+    return {
+      symbol: token.symbol,
+      address: token.address,
+      amount: balance,
+      decimals,
+      formatted: formatUnits(balance, decimals),
+    }
+  })
+
+  return {
+    native: {
+      symbol: 'SOL',
+      amount,
+      decimals: LAMPORTS_DECIMALS,
+      formatted: formatUnits(amount, LAMPORTS_DECIMALS),
+    },
+    tokens,
+  }
+}
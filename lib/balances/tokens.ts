@@ -0,0 +1,27 @@
+import type { TokenConfig } from './types'
+
+/**
+ * Tokens listed under the native balance, keyed by chain id (EVM), cluster
+ * (Solana) or chain id (Cosmos). Decimals are read on-chain. Add the
+ * contracts you deploy to a local chain under its id to see them offline.
+ */
+export const evmTokens: Record<string, TokenConfig[]> = {
+  '1': [{ address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC' }],
+  '137': [{ address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', symbol: 'USDC' }],
+  '8453': [{ address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC' }],
+  '11155111': [{ address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', symbol: 'USDC' }],
+  '31337': [],
+}
+
+export const splTokens: Record<string, TokenConfig[]> = {
+  mainnet: [{ address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC' }],
+  devnet: [],
+  localnet: [],
+}
+
+export const cw20Tokens: Record<string, TokenConfig[]> = {
+  'cosmoshub-4': [],
+  'osmosis-1': [],
+  'juno-1': [],
+  localnet: [],
+}
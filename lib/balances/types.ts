@@ -0,0 +1,18 @@
+export interface TokenBalance {
+  symbol: string
+  // Contract address, SPL mint or CW20 contract; absent for the native coin
+  address?: string
+  amount: bigint
+  decimals: number
+  formatted: string
+}
+
+export interface AccountBalances {
+  native: TokenBalance
+  tokens: TokenBalance[]
+}
+
+export interface TokenConfig {
+  address: string
+  symbol: string
+}
@@ -0,0 +1,94 @@
+export interface CosmosCurrency {
+  coinDenom: string
+  coinMinimalDenom: string
+  coinDecimals: number
+}
+
+export interface CosmosChain {
+  chainId: string
+  name: string
+  rpc: string
+  rest: string
+  bech32Prefix: string
+  coinType: number
+  stakeCurrency: CosmosCurrency
+  // Links an address in a block explorer
+  addressExplorer?: (address: string) => string
+  // Chains Keplr doesn't ship with are suggested through experimentalSuggestChain before enabling
+  suggest?: boolean
+}
+
+/**
+ * Cosmos chains the Keplr connector can use. The first entry is the default
+ * chain; the local entry matches a single-node testnet started with default
+ * ports (e.g. `simd` or `ignite chain serve`).
+ */
+export const cosmosChains: readonly CosmosChain[] = [
+  {
+    chainId: 'cosmoshub-4',
+    name: 'Cosmos Hub',
+    rpc: 'https://cosmos-rpc.publicnode.com',
+    rest: 'https://cosmos-rest.publicnode.com',
+    bech32Prefix: 'cosmos',
+    coinType: 118,
+    stakeCurrency: { coinDenom: 'ATOM', coinMinimalDenom: 'uatom', coinDecimals: 6 },
+    addressExplorer: (address) => `https://www.mintscan.io/cosmos/address/${address}`,
+  },
+  {
+    chainId: 'osmosis-1',
+    name: 'Osmosis',
+    rpc: 'https://osmosis-rpc.publicnode.com',
+    rest: 'https://osmosis-rest.publicnode.com',
+    bech32Prefix: 'osmo',
+    coinType: 118,
+    stakeCurrency: { coinDenom: 'OSMO', coinMinimalDenom: 'uosmo', coinDecimals: 6 },
+    addressExplorer: (address) => `https://www.mintscan.io/osmosis/address/${address}`,
+  },
+  {
+    chainId: 'juno-1',
+    name: 'Juno',
+    rpc: 'https://juno-rpc.publicnode.com',
+    rest: 'https://juno-rest.publicnode.com',
+    bech32Prefix: 'juno',
+    coinType: 118,
+    stakeCurrency: { coinDenom: 'JUNO', coinMinimalDenom: 'ujuno', coinDecimals: 6 },
+    addressExplorer: (address) => `https://www.mintscan.io/juno/address/${address}`,
+  },
+  {
+    chainId: 'localnet',
+    name: 'Local Testnet',
+    rpc: 'http://127.0.0.1:26657',
+    rest: 'http://127.0.0.1:1317',
+    bech32Prefix: 'cosmos',
+    coinType: 118,
+    stakeCurrency: { coinDenom: 'STAKE', coinMinimalDenom: 'stake', coinDecimals: 6 },
+    suggest: true,
+  },
+]
+
+export function getCosmosChain(chainId: string): CosmosChain | undefined {
+  return cosmosChains.find((chain) => chain.chainId === chainId)
+}
+
+// Shape expected by Keplr's experimentalSuggestChain
+export function toKeplrChainInfo(chain: CosmosChain) {
+  const prefix = chain.bech32Prefix
+  return {
+    chainId: chain.chainId,
+    chainName: chain.name,
+    rpc: chain.rpc,
+    rest: chain.rest,
+    bip44: { coinType: chain.coinType },
+    bech32Config: {
+      bech32PrefixAccAddr: prefix,
+      bech32PrefixAccPub: `${prefix}pub`,
+      bech32PrefixValAddr: `${prefix}valoper`,
+      bech32PrefixValPub: `${prefix}valoperpub`,
+      bech32PrefixConsAddr: `${prefix}valcons`,
+      bech32PrefixConsPub: `${prefix}valconspub`,
+    },
+    currencies: [chain.stakeCurrency],
+    feeCurrencies: [{ ...chain.stakeCurrency, gasPriceStep: { low: 0.01, average: 0.025, high: 0.04 } }],
+    stakeCurrency: chain.stakeCurrency,
+  }
+}
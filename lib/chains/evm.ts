@@ -0,0 +1,18 @@
+import { anvil, base, mainnet, polygon, sepolia, type Chain } from 'viem/chains'
+
+/**
+ * EVM networks the app supports. The connect dialog offers to switch to any
+ * of these and warns when the wallet is on something else. `anvil` uses the
+ * default local RPC (http://127.0.0.1:8545, chain id 31337) shared by Hardhat.
+ */
+export const evmChains: readonly Chain[] = [
+  mainnet,
+  polygon,
+  base,
+  sepolia,
+  { ...anvil, name: 'Localhost (Anvil/Hardhat)' },
+]
+
+export function getEvmChain(chainId: string | number): Chain | undefined {
+  return evmChains.find((chain) => chain.id === Number(chainId))
+}
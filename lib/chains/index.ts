@@ -0,0 +1,35 @@
+import type { WalletFamily } from '@/lib/auth/session'
+import { evmChains } from './evm'
+import { cosmosChains } from './cosmos'
+import { solanaClusters } from './solana'
+
+export interface SupportedChain {
+  id: string
+  name: string
+  family: WalletFamily
+  // Links an address in a block explorer, when the chain has one
+  addressExplorer?: (address: string) => string
+}
+
+export function getSupportedChains(family: WalletFamily): SupportedChain[] {
+  switch (family) {
+    case 'evm':
+      return evmChains.map((chain) => {
+        const explorer = chain.blockExplorers?.default.url
+        return {
+          id: String(chain.id),
+          name: chain.name,
+          family,
+          addressExplorer: explorer ? (address: string) => `${explorer}/address/${address}` : undefined,
+        }
+      })
+    case 'cosmos':
+      return cosmosChains.map((chain) => ({ id: chain.chainId, name: chain.name, family, addressExplorer: chain.addressExplorer }))
+    case 'solana':
+      return solanaClusters.map((cluster) => ({ id: cluster.id, name: cluster.name, family, addressExplorer: cluster.addressExplorer }))
+  }
+}
+
+export function getSupportedChain(family: WalletFamily, chainId: string): SupportedChain | undefined {
+  return getSupportedChains(family).find((chain) => chain.id === chainId)
+}
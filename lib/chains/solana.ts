@@ -0,0 +1,42 @@
+export interface SolanaCluster {
+  id: string
+  name: string
+  rpc: string
+  // Links an address in a block explorer
+  addressExplorer: (address: string) => string
+}
+
+const solanaExplorer = (address: string, query = '') => `https://explorer.solana.com/address/${address}${query}`
+
+/**
+ * Solana clusters the app can read from. Phantom doesn't tell dapps which
+ * cluster it is on, so the active one comes from NEXT_PUBLIC_SOLANA_CLUSTER
+ * (defaults to mainnet); use `localnet` with solana-test-validator.
+ */
+export const solanaClusters: readonly SolanaCluster[] = [
+  {
+    id: 'mainnet',
+    name: 'Solana Mainnet',
+    rpc: 'https://api.mainnet-beta.solana.com',
+    addressExplorer: (address) => solanaExplorer(address),
+  },
+  {
+    id: 'devnet',
+    name: 'Solana Devnet',
+    rpc: 'https://api.devnet.solana.com',
+    addressExplorer: (address) => solanaExplorer(address, '?cluster=devnet'),
+  },
+  {
+    id: 'localnet',
+    name: 'Solana Localnet',
+    rpc: 'http://127.0.0.1:8899',
+    // The explorer can read a local validator straight from the browser
+    addressExplorer: (address) => solanaExplorer(address, `?cluster=custom&customUrl=${encodeURIComponent('http://127.0.0.1:8899')}`),
+  },
+]
+
+export const activeSolanaCluster = process.env.NEXT_PUBLIC_SOLANA_CLUSTER ?? 'mainnet'
+
+export function getSolanaCluster(id: string): SolanaCluster | undefined {
+  return solanaClusters.find((cluster) => cluster.id === id)
+}
@@ -0,0 +1,3 @@
+export { commandGroups, type Command, type CommandGroup, type Unsubscribe } from './types'
+export { registerCommands, getCommands, subscribeCommands } from './registry'
+export { fuzzyScore, searchCommands, type CommandSection } from './search'
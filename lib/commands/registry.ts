@@ -0,0 +1,36 @@
+import type { Command, Unsubscribe } from './types'
+
+// One entry per registration, so a module can replace or remove only its own commands
+const sources = new Map<symbol, Command[]>()
+const listeners = new Set<() => void>()
+let snapshot: Command[] = []
+
+function emit() {
+  const byId = new Map<string, Command>()
+  sources.forEach((commands) => commands.forEach((command) => byId.set(command.id, command)))
+  snapshot = Array.from(byId.values())
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Adds commands to the palette until the returned function is called. Any
+ * module can register; components usually do it through `useRegisterCommands`.
+ */
+export function registerCommands(commands: Command[]): Unsubscribe {
+  const key = Symbol('commands')
+  sources.set(key, commands)
+  emit()
+  return () => {
+    if (sources.delete(key)) emit()
+  }
+}
+
+// Returns a stable array between changes so it can back useSyncExternalStore
+export function getCommands(): Command[] {
+  return snapshot
+}
+
+export function subscribeCommands(listener: () => void): Unsubscribe {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
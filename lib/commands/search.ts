@@ -0,0 +1,69 @@
+import { commandGroups, type Command, type CommandGroup } from './types'
+
+export interface CommandSection {
+  group: CommandGroup
+  commands: Command[]
+}
+
+const WORD_BREAK = /[\s\-_/.,:]/
+
+/**
+ * How well `term` matches `text` as an in-order subsequence, or null if it
+ * doesn't. Runs of consecutive characters and matches at the start of a word
+ * score higher, so "mem" prefers "Members" over "Some meetings".
+ */
+export function fuzzyScore(term: string, text: string): number | null {
+  const needle = term.toLowerCase()
+  const haystack = text.toLowerCase()
+  let score = 0
+  let from = 0
+  let previous = -2
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from)
+    if (index === -1) return null
+    score += 1
+    if (index === previous + 1) score += 3
+    if (index === 0 || WORD_BREAK.test(haystack[index - 1])) score += 2
+    previous = index
+    from = index + char.length
+  }
+
+  // Among equal matches, the shorter text is the closer one
+  return score - haystack.length / 1000
+}
+
+// Every word of the query must match the label or a keyword; the best match per word counts
+function scoreCommand(command: Command, terms: string[]): number | null {
+  const fields = [command.label, command.hint, ...(command.keywords ?? [])].filter((field): field is string => Boolean(field))
+  let total = 0
+  for (const term of terms) {
+    const scores = fields.map((field) => fuzzyScore(term, field)).filter((score): score is number => score !== null)
+    if (scores.length === 0) return null
+    total += Math.max(...scores)
+  }
+  return total
+}
+
+/**
+ * Filters and groups commands for the palette. With no query every command is
+ * listed in registration order; otherwise matches are ranked, and groups are
+ * ordered by their best match.
+ */
+export function searchCommands(commands: Command[], query: string): CommandSection[] {
+  const terms = query.trim().split(/\s+/).filter(Boolean)
+  const scored = commands
+    .map((command) => ({ command, score: terms.length === 0 ? 0 : scoreCommand(command, terms) }))
+    .filter((entry): entry is { command: Command; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+
+  const sections = commandGroups
+    .map((group) => {
+      const matches = scored.filter(({ command }) => command.group === group)
+      return { group, commands: matches.map(({ command }) => command), best: matches[0]?.score ?? 0 }
+    })
+    .filter((section) => section.commands.length > 0)
+
+  if (terms.length > 0) sections.sort((a, b) => b.best - a.best)
+  return sections.map(({ group, commands }) => ({ group, commands }))
+}
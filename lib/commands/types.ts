@@ -0,0 +1,22 @@
+import type { ComponentType } from 'react'
+
+// Palette sections, in the order they are listed before anything is typed
+export const commandGroups = ['navigation', 'projects', 'team', 'wallet', 'preferences'] as const
+
+export type CommandGroup = (typeof commandGroups)[number]
+
+export interface Command {
+  // Unique across the palette; a later registration with the same id wins
+  id: string
+  group: CommandGroup
+  label: string
+  // Shown muted beside the label, e.g. a team member's role
+  hint?: string
+  // Other words the search should match, e.g. a project's tech stack
+  keywords?: string[]
+  icon?: ComponentType<{ className?: string }>
+  // Called after the palette has closed; errors are the command's to report
+  run: () => void | Promise<void>
+}
+
+export type Unsubscribe = () => void
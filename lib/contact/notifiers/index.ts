@@ -0,0 +1,26 @@
+import { createSmtpNotifier } from './smtp'
+import { createWebhookNotifier } from './webhook'
+import type { ContactNotifier } from './types'
+
+/**
+ * Picks the notifier from CONTACT_NOTIFIER (smtp, webhook or none). Returns
+ * null when notifications are off; submissions are stored either way.
+ */
+export function getContactNotifier(): ContactNotifier | null {
+  switch (process.env.CONTACT_NOTIFIER) {
+    case 'smtp': {
+      const { SMTP_URL: url, CONTACT_FROM_EMAIL: from, CONTACT_TO_EMAIL: to } = process.env
+      if (!url || !from || !to) throw new Error('SMTP_URL, CONTACT_FROM_EMAIL and CONTACT_TO_EMAIL must be set for the smtp notifier')
+      return createSmtpNotifier({ url, from, to })
+    }
+    case 'webhook': {
+      const url = process.env.CONTACT_WEBHOOK_URL
+      if (!url) throw new Error('CONTACT_WEBHOOK_URL must be set for the webhook notifier')
+      return createWebhookNotifier({ url })
+    }
+    default:
+      return null
+  }
+}
+
+export type { ContactNotifier } from './types'
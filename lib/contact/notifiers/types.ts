@@ -0,0 +1,7 @@
+import type { ContactSubmission } from '../schema'
+
+// Tells someone about a new submission; it is already stored when this runs
+export interface ContactNotifier {
+  name: string
+  notify: (submission: ContactSubmission) => Promise<void>
+}
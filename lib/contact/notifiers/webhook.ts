@@ -0,0 +1,16 @@
+import type { ContactNotifier } from './types'
+
+// Posts the submission as JSON, e.g. to a Slack or Discord relay or an automation tool
+export function createWebhookNotifier({ url }: { url: string }): ContactNotifier {
+  return {
+    name: 'webhook',
+    async notify(submission) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(submission),
+      })
+      if (!response.ok) throw new Error(`Contact webhook failed with ${response.status}`)
+    },
+  }
+}
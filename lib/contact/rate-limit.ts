@@ -0,0 +1,22 @@
+interface RateWindow {
+  count: number
+  resetAt: number
+}
+
+const windows = new Map<string, RateWindow>()
+
+// Fixed-window limit per key, kept in memory. Enough for a single server; use a shared store when scaling out.
+export function rateLimit(key: string, { limit, windowMs }: { limit: number; windowMs: number }) {
+  const now = Date.now()
+  windows.forEach((entry, windowKey) => {
+    if (entry.resetAt <= now) windows.delete(windowKey)
+  })
+
+  const current = windows.get(key) ?? { count: 0, resetAt: now + windowMs }
+  current.count += 1
+  windows.set(key, current)
+
+  return current.count <= limit
+    ? { ok: true as const }
+    : { ok: false as const, retryAfter: Math.ceil((current.resetAt - now) / 1000) }
+}
@@ -0,0 +1,26 @@
+import { z } from 'zod'
+
+// Shared by the form and the API route, so both report the same field errors.
+// The messages are keys of `contact.errors`, which the form shows in the visitor's language.
+export const contactFormSchema = z.object({
+  name: z.string().trim().min(1, 'nameRequired').max(100, 'nameTooLong'),
+  email: z.string().trim().email('emailInvalid'),
+  message: z.string().trim().min(10, 'messageTooShort').max(5000, 'messageTooLong'),
+  // Honeypot: hidden from people, so anything in it came from a bot
+  website: z.string().optional(),
+  // The wallet to attach; the server only keeps it if the session has verified it
+  wallet: z.object({ walletType: z.string(), address: z.string() }).optional(),
+})
+
+export type ContactForm = z.infer<typeof contactFormSchema>
+
+export type ContactFieldErrors = Partial<Record<keyof ContactForm, string[]>>
+
+export interface ContactSubmission {
+  id: string
+  name: string
+  email: string
+  message: string
+  wallet?: { address: string; family: string }
+  receivedAt: string
+}
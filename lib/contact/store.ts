@@ -0,0 +1,11 @@
+import { appendFile, mkdir } from 'node:fs/promises'
+import path from 'node:path'
+import type { ContactSubmission } from './schema'
+
+// One JSON object per line, appended, so earlier submissions are never rewritten
+const STORE_PATH = path.resolve(process.env.CONTACT_STORE_PATH || 'data/contact-submissions.jsonl')
+
+export async function saveSubmission(submission: ContactSubmission) {
+  await mkdir(path.dirname(STORE_PATH), { recursive: true })
+  await appendFile(STORE_PATH, `${JSON.stringify(submission)}\n`, 'utf8')
+}
@@ -0,0 +1,101 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { z } from 'zod'
+import {
+  aboutSchema,
+  contactSchema,
+  projectSchema,
+  siteSchema,
+  teamSchema,
+  type Project,
+  type TeamMember,
+} from './schema'
+
+const CONTENT_DIR = path.join(process.cwd(), 'content')
+
+// Names the file and field at fault, e.g. "content/team.json: [2].role: Required"
+export class ContentError extends Error {
+  constructor(file: string, issues: string[]) {
+    super(`Invalid content in ${file}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`)
+    this.name = 'ContentError'
+  }
+}
+
+function formatIssue({ path: fieldPath, message }: z.ZodIssue) {
+  const field = fieldPath.map((key) => (typeof key === 'number' ? `[${key}]` : `.${key}`)).join('').replace(/^\./, '')
+  return field ? `${field}: ${message}` : message
+}
+
+function readJson<S extends z.ZodTypeAny>(file: string, schema: S): z.output<S> {
+  const relative = path.join('content', file)
+  let data: unknown
+  try {
+    data = JSON.parse(fs.readFileSync(path.join(CONTENT_DIR, file), 'utf8'))
+  } catch (error) {
+    throw new ContentError(relative, [error instanceof Error ? error.message : String(error)])
+  }
+
+  const result = schema.safeParse(data)
+  if (!result.success) throw new ContentError(relative, result.error.issues.map(formatIssue))
+  return result.data
+}
+
+function loadProjects(): Project[] {
+  return fs.readdirSync(path.join(CONTENT_DIR, 'projects'))
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => ({ ...readJson(path.join('projects', file), projectSchema), slug: path.basename(file, '.json') }))
+    .sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity) || a.title.localeCompare(b.title))
+}
+
+// Project pages list their team by name, so every name must exist in team.json
+export function checkProjectTeams(projects: Project[], team: TeamMember[]) {
+  const names = new Set(team.map((member) => member.name))
+  for (const project of projects) {
+    const unknown = project.team
+      .map((name, index) => (names.has(name) ? null : `team[${index}]: "${name}" is not in content/team.json`))
+      .filter((issue): issue is string => issue !== null)
+    if (unknown.length > 0) throw new ContentError(path.join('content', 'projects', `${project.slug}.json`), unknown)
+  }
+}
+
+function loadContent() {
+  const projects = loadProjects()
+  const team = readJson('team.json', teamSchema)
+  checkProjectTeams(projects, team)
+
+  return {
+    site: readJson('site.json', siteSchema),
+    projects,
+    about: readJson('about.json', aboutSchema),
+    team,
+    contact: readJson('contact.json', contactSchema),
+  }
+}
+
+export type SiteContent = ReturnType<typeof loadContent>
+
+let cached: SiteContent | null = null
+
+/**
+ * Everything under content/, validated on first use. The root layout reads
+ * it for metadata, so `next build` fails on broken content while prerendering,
+ * naming the file and field at fault.
+ */
+export function getContent(): SiteContent {
+  // Re-read in development so content edits show up without a restart
+  if (!cached || process.env.NODE_ENV === 'development') cached = loadContent()
+  return cached
+}
+
+// Called after the admin CMS publishes, so the next read picks up the new files
+export function invalidateContent() {
+  cached = null
+}
+
+// The optional MDX body of a project, from content/projects/<slug>.mdx
+export function getProjectBody(slug: string): string | null {
+  const file = path.join(CONTENT_DIR, 'projects', `${slug}.mdx`)
+  return fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : null
+}
+
+export type { AboutBlock, Contact, ContentImage, Project, Site, TeamMember } from './schema'
@@ -0,0 +1,62 @@
+import { z } from 'zod'
+
+const text = z.string().trim().min(1)
+
+// Images go through next/image, which only serves this site's own files: a path
+// under public/ or an upload from the CMS (/api/uploads/...), never another host
+const imagePath = text.regex(/^\/(?![/\\])/, 'Use a path under public/ or an uploaded image')
+
+const image = z.object({
+  src: imagePath,
+  alt: text,
+})
+
+export const siteSchema = z.object({
+  name: text,
+  title: text,
+  description: text,
+  copyright: text,
+  copyrightYear: z.number().int(),
+})
+
+export const projectSchema = z.object({
+  title: text,
+  summary: text,
+  // Lower comes first; projects without one are listed last
+  order: z.number().int().optional(),
+  cover: image,
+  gallery: z.array(image).default([]),
+  tech: z.array(text).default([]),
+  // Names from team.json
+  team: z.array(text).default([]),
+  repoUrl: z.string().url().optional(),
+  demoUrl: z.string().url().optional(),
+  contract: z.object({
+    family: z.enum(['evm', 'solana', 'cosmos']),
+    chainId: text,
+    address: text,
+  }).optional(),
+})
+
+export const aboutSchema = z.array(z.object({
+  title: text,
+  body: text,
+}))
+
+export const teamSchema = z.array(z.object({
+  name: text,
+  role: text,
+  image: imagePath,
+}))
+
+export const contactSchema = z.object({
+  email: z.string().email(),
+})
+
+export type Site = z.infer<typeof siteSchema>
+export type ContentImage = z.infer<typeof image>
+// The slug comes from the file name
+export type Project = z.infer<typeof projectSchema> & { slug: string }
+export type AboutBlock = z.infer<typeof aboutSchema>[number]
+export type TeamMember = z.infer<typeof teamSchema>[number]
+export type Contact = z.infer<typeof contactSchema>
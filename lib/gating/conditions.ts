@@ -0,0 +1,120 @@
+import { createPublicClient, erc20Abi, erc721Abi, http, parseUnits, type Address } from 'viem'
+import { bech32 } from '@scure/base'
+import type { WalletIdentity } from '@/lib/auth/session'
+import { cosmosRest } from '@/lib/balances/cosmos'
+import { solanaRpc, type ParsedTokenAccounts } from '@/lib/balances/solana'
+import { getSupportedChain } from '@/lib/chains'
+import { getCosmosChain } from '@/lib/chains/cosmos'
+import { getEvmChain } from '@/lib/chains/evm'
+import { getSolanaCluster } from '@/lib/chains/solana'
+import { interpolate, type Messages } from '@/lib/i18n'
+import type { GateCondition } from './types'
+
+function evmClient(chainId: string) {
+  const chain = getEvmChain(chainId)
+  if (!chain) throw new Error(`Unsupported EVM chain: ${chainId}`)
+  return createPublicClient({ chain, transport: http() })
+}
+
+async function holdsErc20(condition: Extract<GateCondition, { type: 'erc20' }>, owner: string) {
+  const client = evmClient(condition.chainId)
+  const contract = { address: condition.token as Address, abi: erc20Abi }
+  const [balance, decimals] = await Promise.all([
+    client.readContract({ ...contract, functionName: 'balanceOf', args: [owner as Address] }),
+    client.readContract({ ...contract, functionName: 'decimals' }),
+  ])
+  return balance >= parseUnits(condition.minAmount, decimals)
+}
+
+async function holdsErc721(condition: Extract<GateCondition, { type: 'erc721' }>, owner: string) {
+  const balance = await evmClient(condition.chainId).readContract({
+    address: condition.collection as Address,
+    abi: erc721Abi,
+    functionName: 'balanceOf',
+    args: [owner as Address],
+  })
+  return balance > BigInt(0)
+}
+
+async function holdsSpl(condition: Extract<GateCondition, { type: 'spl' }>, owner: string) {
+  const cluster = getSolanaCluster(condition.cluster)
+  if (!cluster) throw new Error(`Unsupported Solana cluster: ${condition.cluster}`)
+
+  const { value: accounts } = await solanaRpc<ParsedTokenAccounts>(cluster.rpc, 'getTokenAccountsByOwner', [
+    owner,
+    { mint: condition.mint },
+    { encoding: 'jsonParsed' },
+  ])
+  if (accounts.length === 0) return false
+
+  let balance = BigInt(0)
+  for (const { account } of accounts) balance += BigInt(account.data.parsed.info.tokenAmount.amount)
+  return balance >= parseUnits(condition.minAmount, accounts[0].account.data.parsed.info.tokenAmount.decimals)
+}
+
+async function hasStaked(condition: Extract<GateCondition, { type: 'cosmos_stake' }>, delegator: string) {
+  const chain = getCosmosChain(condition.chainId)
+  if (!chain) throw new Error(`Unsupported Cosmos chain: ${condition.chainId}`)
+
+  // Answers 404 when there is no delegation, which checkCondition counts as unmet
+  const { delegation_response: delegation } = await cosmosRest<{ delegation_response?: { balance: { amount: string } } }>(
+    chain.rest,
+    `/cosmos/staking/v1beta1/validators/${condition.validator}/delegations/${delegator}`,
+  )
+  const staked = BigInt(delegation?.balance.amount ?? '0')
+  return staked >= parseUnits(condition.minAmount, chain.stakeCurrency.coinDecimals)
+}
+
+function meetsCondition(condition: GateCondition, identity: WalletIdentity): Promise<boolean> {
+  switch (condition.type) {
+    case 'erc20':
+      return identity.family === 'evm' ? holdsErc20(condition, identity.address) : Promise.resolve(false)
+    case 'erc721':
+      return identity.family === 'evm' ? holdsErc721(condition, identity.address) : Promise.resolve(false)
+    case 'spl':
+      return identity.family === 'solana' ? holdsSpl(condition, identity.address) : Promise.resolve(false)
+    case 'cosmos_stake': {
+      const chain = getCosmosChain(condition.chainId)
+      if (identity.family !== 'cosmos' || !chain) return Promise.resolve(false)
+      // The identity may be verified on another chain; the same key controls the account under this chain's prefix
+      const { words } = bech32.decode(identity.address as `${string}1${string}`)
+      return hasStaked(condition, bech32.encode(chain.bech32Prefix, words))
+    }
+  }
+}
+
+// True when any of the identities meets the condition; failed lookups count as unmet
+export async function checkCondition(condition: GateCondition, identities: WalletIdentity[]): Promise<boolean> {
+  const results = await Promise.allSettled(identities.map((identity) => meetsCondition(condition, identity)))
+  return results.some((result) => result.status === 'fulfilled' && result.value)
+}
+
+// The requirement in words, from the `gate.conditions` messages of the visitor's locale
+export function describeCondition(condition: GateCondition, copy: Messages['gate']['conditions']): string {
+  switch (condition.type) {
+    case 'erc20':
+      return interpolate(copy.hold, {
+        amount: condition.minAmount,
+        symbol: condition.symbol,
+        chain: getSupportedChain('evm', condition.chainId)?.name ?? condition.chainId,
+      })
+    case 'erc721':
+      return interpolate(copy.ownNft, {
+        collection: condition.name,
+        chain: getSupportedChain('evm', condition.chainId)?.name ?? condition.chainId,
+      })
+    case 'spl':
+      return interpolate(copy.hold, {
+        amount: condition.minAmount,
+        symbol: condition.symbol,
+        chain: getSupportedChain('solana', condition.cluster)?.name ?? condition.cluster,
+      })
+    case 'cosmos_stake':
+      return interpolate(copy.stake, {
+        amount: condition.minAmount,
+        denom: getCosmosChain(condition.chainId)?.stakeCurrency.coinDenom ?? '',
+        validator: condition.validatorName,
+        chain: getSupportedChain('cosmos', condition.chainId)?.name ?? condition.chainId,
+      })
+  }
+}
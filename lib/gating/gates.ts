@@ -0,0 +1,48 @@
+import type { Gate } from './types'
+
+/**
+ * Gates that content can be locked behind, by id; their titles are in the
+ * `gate.titles` entry of each message catalog. Pass the id to
+ * `<TokenGate gate="...">`; the condition is checked on the server against
+ * every address in the visitor's wallet session.
+ */
+export const gates = {
+  'usdc-holders': {
+    condition: {
+      type: 'erc20',
+      chainId: '1',
+      token: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      symbol: 'USDC',
+      minAmount: '1',
+    },
+    upgradeUrl: 'https://www.circle.com/usdc',
+  },
+  'nft-holders': {
+    condition: {
+      type: 'erc721',
+      chainId: '1',
+      collection: '0xBC4CA0EdA7647A8aB7C2061c2E118A18a936f13D',
+      name: 'Bored Ape Yacht Club',
+    },
+  },
+  'sol-usdc-holders': {
+    condition: {
+      type: 'spl',
+      cluster: 'mainnet',
+      mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      symbol: 'USDC',
+      minAmount: '1',
+    },
+  },
+  'atom-stakers': {
+    condition: {
+      type: 'cosmos_stake',
+      chainId: 'cosmoshub-4',
+      validator: 'cosmosvaloper1sjllsnramtg3ewxqwwrwjxfgc4n4ef9u2lcnj0',
+      validatorName: 'Stake.fish',
+      minAmount: '1',
+    },
+  },
+} satisfies Record<string, Gate>
+
+export type GateId = keyof typeof gates
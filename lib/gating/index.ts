@@ -0,0 +1,31 @@
+import type { WalletSession } from '@/lib/auth/session'
+import { checkCondition } from './conditions'
+import { gates, type GateId } from './gates'
+
+// Holdings change slowly; a short cache keeps page loads from hammering the RPCs
+const CACHE_TTL = 60 * 1000
+const cache = new Map<string, { unlocked: Promise<boolean>; expiresAt: number }>()
+
+export function isGateUnlocked(gateId: GateId, session: WalletSession | null): Promise<boolean> {
+  const identities = session?.identities ?? []
+  if (identities.length === 0) return Promise.resolve(false)
+
+  const key = `${gateId}:${identities.map(({ family, address }) => `${family}:${address}`).sort().join(',')}`
+  const cached = cache.get(key)
+  if (cached && cached.expiresAt > Date.now()) return cached.unlocked
+
+  cache.forEach((entry, entryKey) => {
+    if (entry.expiresAt <= Date.now()) cache.delete(entryKey)
+  })
+  const unlocked = checkCondition(gates[gateId].condition, identities)
+  cache.set(key, { unlocked, expiresAt: Date.now() + CACHE_TTL })
+  // Only unlocks are cached, so "Check again" right after buying works
+  unlocked.then((ok) => {
+    if (!ok) cache.delete(key)
+  }, () => cache.delete(key))
+  return unlocked
+}
+
+export { gates, type GateId } from './gates'
+export { checkCondition, describeCondition } from './conditions'
+export type { Gate, GateCondition } from './types'
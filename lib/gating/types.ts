@@ -0,0 +1,12 @@
+// On-chain conditions a gate can require. Amounts are in whole token units, e.g. '1.5'.
+export type GateCondition =
+  | { type: 'erc20'; chainId: string; token: string; symbol: string; minAmount: string }
+  | { type: 'erc721'; chainId: string; collection: string; name: string }
+  | { type: 'spl'; cluster: string; mint: string; symbol: string; minAmount: string }
+  | { type: 'cosmos_stake'; chainId: string; validator: string; validatorName: string; minAmount: string }
+
+export interface Gate {
+  condition: GateCondition
+  // Where visitors can get what the gate asks for
+  upgradeUrl?: string
+}
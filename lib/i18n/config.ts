@@ -0,0 +1,31 @@
+export const locales = ['en', 'hi'] as const
+
+export type Locale = (typeof locales)[number]
+
+export const defaultLocale: Locale = 'en'
+
+// Each language in its own script, as the switcher lists them
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  hi: 'हिन्दी',
+}
+
+// Set by the language switcher; wins over Accept-Language
+export const LOCALE_COOKIE = 'locale'
+
+export function isLocale(value: string | undefined): value is Locale {
+  return (locales as readonly string[]).includes(value ?? '')
+}
+
+// Splits "/hi/projects/x" into the locale and "/projects/x"
+export function splitLocale(pathname: string): { locale: Locale | null; pathname: string } {
+  const segment = pathname.split('/')[1]
+  if (!isLocale(segment)) return { locale: null, pathname }
+  return { locale: segment, pathname: pathname.slice(segment.length + 1) || '/' }
+}
+
+// Prefixes a site path with the locale, e.g. ("hi", "/account") -> "/hi/account"
+export function localizePath(locale: Locale, path: string): string {
+  const { pathname } = splitLocale(path)
+  return pathname === '/' ? `/${locale}` : `/${locale}${pathname}`
+}
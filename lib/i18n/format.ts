@@ -0,0 +1,34 @@
+import type { Locale } from './config'
+
+export function formatDate(
+  locale: Locale,
+  value: number | string | Date,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' },
+) {
+  return new Date(value).toLocaleString(locale, options)
+}
+
+export function formatNumber(locale: Locale, value: number | bigint, options?: Intl.NumberFormatOptions) {
+  return new Intl.NumberFormat(locale, options).format(value)
+}
+
+/**
+ * Formats a decimal token amount such as "1234567.123456789" without going
+ * through a float, so large balances keep every digit. Extra fraction digits
+ * are cut rather than rounded, so a balance is never shown higher than it is.
+ */
+export function formatTokenAmount(locale: Locale, amount: string, maximumFractionDigits = 4) {
+  const numberFormat = new Intl.NumberFormat(locale)
+  const negative = amount.startsWith('-')
+  const [whole = '0', fraction = ''] = amount.replace(/^[-+]/, '').split('.')
+  const digits = fraction.slice(0, maximumFractionDigits).replace(/0+$/, '')
+
+  const formattedWhole = numberFormat.format(BigInt(whole || '0'))
+  const sign = negative ? numberFormat.formatToParts(-1).find(({ type }) => type === 'minusSign')?.value ?? '-' : ''
+  if (!digits) return `${sign}${formattedWhole}`
+
+  const decimal = numberFormat.formatToParts(0.5).find(({ type }) => type === 'decimal')?.value ?? '.'
+  // Digit by digit, so locales with their own numerals use them after the separator too
+  const formattedFraction = Array.from(digits, (digit) => numberFormat.format(Number(digit))).join('')
+  return `${sign}${formattedWhole}${decimal}${formattedFraction}`
+}
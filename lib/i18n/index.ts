@@ -0,0 +1,9 @@
+export * from './config'
+export * from './format'
+export { negotiateLocale } from './negotiate'
+export type { Messages } from './messages'
+
+// Fills "{name}" placeholders, e.g. interpolate('Connect {wallet}', { wallet: 'Phantom' })
+export function interpolate(message: string, values: Record<string, string | number>) {
+  return message.replace(/\{(\w+)\}/g, (placeholder, key: string) => (key in values ? String(values[key]) : placeholder))
+}
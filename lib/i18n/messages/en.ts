@@ -0,0 +1,249 @@
+// The reference catalog: every other locale must provide the same keys (see `Messages`)
+export const en = {
+  nav: {
+    projects: 'Projects',
+    about: 'About',
+    aboutUs: 'About us',
+    team: 'Team',
+    members: 'Members',
+    contact: 'Contact Us',
+    menu: 'Menu',
+    openMenu: 'Open menu',
+    backToHome: 'Back to home',
+  },
+  home: {
+    emailUs: 'Or email us at',
+    rightsReserved: 'All rights reserved.',
+    membersTitle: 'Members Area',
+    membersBody: 'Members-only content',
+    membersTeaser: 'Updates and early access for our community.',
+    sections: {
+      projects: 'Our Projects',
+      about: 'About Us',
+      team: 'Our Team',
+      members: 'Members',
+      contact: 'Contact Us',
+    },
+  },
+  settings: {
+    changeLanguage: 'Change language',
+  },
+  dialog: {
+    close: 'Close',
+  },
+  theme: {
+    menu: 'Change theme',
+    mode: 'Mode',
+    modes: {
+      light: 'Light',
+      dark: 'Dark',
+      system: 'System',
+    },
+    palette: 'Colors',
+    palettes: {
+      stone: 'Stone',
+      slate: 'Slate',
+      violet: 'Violet',
+      'high-contrast': 'High contrast',
+    },
+  },
+  commands: {
+    title: 'Command palette',
+    placeholder: 'Search sections, projects and actions...',
+    empty: 'No results.',
+    groups: {
+      navigation: 'Go to',
+      projects: 'Projects',
+      team: 'Team',
+      wallet: 'Wallet',
+      preferences: 'Preferences',
+    },
+    useAccount: 'Use {address}',
+    switchChain: 'Switch to {chain}',
+    toggleTheme: 'Toggle dark mode',
+    usePalette: 'Use {palette} colors',
+    changeLanguage: 'Change language to {language}',
+  },
+  wallet: {
+    families: {
+      evm: 'Ethereum & EVM',
+      solana: 'Solana',
+      cosmos: 'Cosmos',
+    },
+    wallet: 'Wallet',
+    restoring: 'Restoring wallet connection',
+    connectWallet: 'Connect Wallet',
+    manageTitle: 'Manage Connection',
+    connectedWith: 'You are connected with {wallet}.',
+    openInWalletApp: 'Open this page in your wallet app to connect:',
+    chooseWallet: 'Choose a wallet to connect:',
+    connect: 'Connect {wallet}',
+    connected: '{wallet} Connected',
+    notInstalled: '(not installed)',
+    openIn: 'Open in {app}',
+    disconnect: 'Disconnect {wallet}',
+    switchAccount: 'Switch wallet account',
+    activeAccount: 'Active account',
+    account: 'Account',
+    manageConnection: 'Manage connection',
+    connectAnother: 'Connect another wallet',
+    disconnectAll: 'Disconnect all',
+  },
+  walletErrors: {
+    yourWallet: 'your wallet',
+    not_installed: {
+      title: '{wallet} is not installed',
+      description: 'Install {wallet}, then reload this page to connect.',
+    },
+    user_rejected: {
+      title: 'Request cancelled',
+      description: 'The request was rejected in {wallet}.',
+    },
+    request_pending: {
+      title: 'Request already pending',
+      description: '{wallet} is waiting for you. Open it to approve or reject the pending request.',
+    },
+    locked: {
+      title: '{wallet} is locked',
+      description: 'Unlock {wallet} and try again.',
+    },
+    unauthorized: {
+      title: '{wallet} has not authorized this site',
+      description: 'Reconnect and approve access to your account in {wallet}.',
+    },
+    unsupported_chain: {
+      title: 'Unsupported network',
+      description: '{wallet} could not use the requested network. {message}',
+    },
+    switch_unsupported: {
+      title: '{wallet} cannot switch networks',
+      description: 'Change the network in {wallet} itself.',
+    },
+    network: {
+      title: 'Network error',
+      description: 'Check your internet connection and try again.',
+    },
+    sign_in_failed: {
+      title: 'Sign-in failed',
+      description: '{message}',
+    },
+    unknown: {
+      title: 'Something went wrong with {wallet}',
+      description: '{message}',
+    },
+    actions: {
+      install: 'Install',
+      retry: 'Retry',
+      open_wallet: 'Open wallet',
+      reconnect: 'Reconnect',
+    },
+  },
+  network: {
+    label: 'Network:',
+    chain: 'Chain {id}',
+    unknown: 'Unknown',
+    unsupported: 'This network is not supported. Please switch to one of the networks below.',
+    switching: 'Switching...',
+  },
+  balances: {
+    title: 'Balances',
+    refresh: 'Refresh balances',
+    error: 'Could not load balances: {error}',
+  },
+  contact: {
+    name: 'Name',
+    email: 'Email',
+    message: 'Message',
+    includeWallet: 'Include my verified wallet address',
+    sent: 'Thanks, we got your message.',
+    sendAnother: 'Send another',
+    notSent: 'Message not sent',
+    couldNotSend: 'Could not send your message',
+    tryAgain: 'Please try again.',
+    send: 'Send message',
+    tooMany: 'Too many messages, please try again later.',
+    // Keyed by the messages in lib/contact/schema.ts
+    errors: {
+      nameRequired: 'Please enter your name',
+      nameTooLong: 'Please use at most 100 characters',
+      emailInvalid: 'Please enter a valid email address',
+      messageTooShort: 'Please write at least 10 characters',
+      messageTooLong: 'Please use at most 5,000 characters',
+    },
+  },
+  gate: {
+    requires: 'Requires:',
+    getAccess: 'Get access',
+    checkAgain: 'Check again',
+    titles: {
+      'usdc-holders': 'USDC holders',
+      'nft-holders': 'Collectors',
+      'sol-usdc-holders': 'Solana USDC holders',
+      'atom-stakers': 'Stakers',
+    },
+    conditions: {
+      hold: 'Hold at least {amount} {symbol} on {chain}',
+      ownNft: 'Own an NFT from {collection} on {chain}',
+      stake: 'Stake at least {amount} {denom} with {validator} on {chain}',
+    },
+  },
+  connect: {
+    metaTitle: 'Connect your wallet',
+    unauthenticated: {
+      title: 'Connect your wallet',
+      description: 'This page is for members. Connect a wallet and sign in to continue.',
+    },
+    wrong_family: {
+      title: 'Different wallet needed',
+      description: 'This page needs a wallet from another network. Connect one to continue.',
+    },
+    not_allowlisted: {
+      title: 'Access restricted',
+      description: 'None of your connected wallets has access to this page. Connect an allowed wallet to continue.',
+    },
+  },
+  project: {
+    backToProjects: 'Back to projects',
+    techStack: 'Tech stack',
+    repository: 'Repository',
+    liveDemo: 'Live demo',
+    contractOn: 'Contract on {chain}:',
+    viewInExplorer: 'View in explorer',
+    screenshots: 'Screenshots',
+    team: 'Team',
+    viewImage: 'View {image}',
+    imageCount: 'Image {index} of {total}',
+    previousImage: 'Previous image',
+    nextImage: 'Next image',
+  },
+  account: {
+    title: 'Account',
+    loading: 'Loading your account...',
+    noWalletTitle: 'No wallet connected',
+    noWalletDescription: 'Reconnect a wallet to see your account.',
+    walletsTitle: 'Wallets',
+    walletsDescription: 'Connected wallets and their accounts.',
+    unknownNetwork: 'Unknown network',
+    active: 'Active',
+    use: 'Use',
+    copyAddress: 'Copy address',
+    addressCopied: 'Address copied',
+    copyFailed: 'Could not copy the address',
+    viewInExplorer: 'View in block explorer',
+    network: 'Network',
+    session: 'Session',
+    signedInUntil: 'Signed in until {date}',
+    verified: 'Verified {date}',
+    signOutAll: 'Sign out of all sessions',
+    history: 'History',
+    clear: 'Clear',
+    noHistory: 'No connection events yet.',
+    changedTo: 'to {chain}',
+    events: {
+      connected: 'Connected',
+      disconnected: 'Disconnected',
+      account_changed: 'Switched account',
+      chain_changed: 'Switched network',
+    },
+  },
+}
@@ -0,0 +1,249 @@
+import type { Messages } from '.'
+
+export const hi: Messages = {
+  nav: {
+    projects: 'प्रोजेक्ट',
+    about: 'परिचय',
+    aboutUs: 'हमारे बारे में',
+    team: 'टीम',
+    members: 'सदस्य',
+    contact: 'संपर्क करें',
+    menu: 'मेनू',
+    openMenu: 'मेनू खोलें',
+    backToHome: 'होम पर वापस जाएँ',
+  },
+  home: {
+    emailUs: 'या हमें ईमेल करें',
+    rightsReserved: 'सर्वाधिकार सुरक्षित।',
+    membersTitle: 'सदस्य क्षेत्र',
+    membersBody: 'केवल सदस्यों के लिए सामग्री',
+    membersTeaser: 'हमारे समुदाय के लिए अपडेट और जल्दी पहुँच।',
+    sections: {
+      projects: 'हमारे प्रोजेक्ट',
+      about: 'हमारे बारे में',
+      team: 'हमारी टीम',
+      members: 'सदस्य',
+      contact: 'संपर्क करें',
+    },
+  },
+  settings: {
+    changeLanguage: 'भाषा बदलें',
+  },
+  dialog: {
+    close: 'बंद करें',
+  },
+  theme: {
+    menu: 'थीम बदलें',
+    mode: 'मोड',
+    modes: {
+      light: 'लाइट',
+      dark: 'डार्क',
+      system: 'सिस्टम',
+    },
+    palette: 'रंग',
+    palettes: {
+      stone: 'स्टोन',
+      slate: 'स्लेट',
+      violet: 'बैंगनी',
+      'high-contrast': 'हाई कंट्रास्ट',
+    },
+  },
+  commands: {
+    title: 'कमांड पैलेट',
+    placeholder: 'सेक्शन, प्रोजेक्ट और कार्य खोजें...',
+    empty: 'कोई परिणाम नहीं।',
+    groups: {
+      navigation: 'यहाँ जाएँ',
+      projects: 'प्रोजेक्ट',
+      team: 'टीम',
+      wallet: 'वॉलेट',
+      preferences: 'प्राथमिकताएँ',
+    },
+    useAccount: '{address} का उपयोग करें',
+    switchChain: '{chain} पर स्विच करें',
+    toggleTheme: 'डार्क मोड बदलें',
+    usePalette: '{palette} रंगों का उपयोग करें',
+    changeLanguage: 'भाषा बदलकर {language} करें',
+  },
+  wallet: {
+    families: {
+      evm: 'Ethereum और EVM',
+      solana: 'Solana',
+      cosmos: 'Cosmos',
+    },
+    wallet: 'वॉलेट',
+    restoring: 'वॉलेट कनेक्शन बहाल हो रहा है',
+    connectWallet: 'वॉलेट कनेक्ट करें',
+    manageTitle: 'कनेक्शन प्रबंधित करें',
+    connectedWith: 'आप {wallet} से कनेक्टेड हैं।',
+    openInWalletApp: 'कनेक्ट करने के लिए यह पेज अपने वॉलेट ऐप में खोलें:',
+    chooseWallet: 'कनेक्ट करने के लिए वॉलेट चुनें:',
+    connect: '{wallet} कनेक्ट करें',
+    connected: '{wallet} कनेक्टेड',
+    notInstalled: '(इंस्टॉल नहीं है)',
+    openIn: '{app} में खोलें',
+    disconnect: '{wallet} डिस्कनेक्ट करें',
+    switchAccount: 'वॉलेट खाता बदलें',
+    activeAccount: 'सक्रिय खाता',
+    account: 'खाता',
+    manageConnection: 'कनेक्शन प्रबंधित करें',
+    connectAnother: 'दूसरा वॉलेट कनेक्ट करें',
+    disconnectAll: 'सभी डिस्कनेक्ट करें',
+  },
+  walletErrors: {
+    yourWallet: 'आपका वॉलेट',
+    not_installed: {
+      title: '{wallet} इंस्टॉल नहीं है',
+      description: '{wallet} इंस्टॉल करें, फिर कनेक्ट करने के लिए यह पेज दोबारा लोड करें।',
+    },
+    user_rejected: {
+      title: 'अनुरोध रद्द किया गया',
+      description: '{wallet} में अनुरोध अस्वीकार कर दिया गया।',
+    },
+    request_pending: {
+      title: 'अनुरोध पहले से लंबित है',
+      description: '{wallet} आपकी प्रतीक्षा कर रहा है। लंबित अनुरोध को स्वीकार या अस्वीकार करने के लिए इसे खोलें।',
+    },
+    locked: {
+      title: '{wallet} लॉक है',
+      description: '{wallet} अनलॉक करें और फिर से कोशिश करें।',
+    },
+    unauthorized: {
+      title: '{wallet} ने इस साइट को अनुमति नहीं दी है',
+      description: 'फिर से कनेक्ट करें और {wallet} में अपने खाते की पहुँच स्वीकार करें।',
+    },
+    unsupported_chain: {
+      title: 'असमर्थित नेटवर्क',
+      description: '{wallet} अनुरोधित नेटवर्क का उपयोग नहीं कर सका। {message}',
+    },
+    switch_unsupported: {
+      title: '{wallet} नेटवर्क नहीं बदल सकता',
+      description: 'नेटवर्क सीधे {wallet} में बदलें।',
+    },
+    network: {
+      title: 'नेटवर्क त्रुटि',
+      description: 'अपना इंटरनेट कनेक्शन जाँचें और फिर से कोशिश करें।',
+    },
+    sign_in_failed: {
+      title: 'साइन-इन विफल रहा',
+      description: '{message}',
+    },
+    unknown: {
+      title: '{wallet} के साथ कुछ गलत हो गया',
+      description: '{message}',
+    },
+    actions: {
+      install: 'इंस्टॉल करें',
+      retry: 'फिर से कोशिश करें',
+      open_wallet: 'वॉलेट खोलें',
+      reconnect: 'फिर से कनेक्ट करें',
+    },
+  },
+  network: {
+    label: 'नेटवर्क:',
+    chain: 'चेन {id}',
+    unknown: 'अज्ञात',
+    unsupported: 'यह नेटवर्क समर्थित नहीं है। कृपया नीचे दिए गए किसी नेटवर्क पर जाएँ।',
+    switching: 'बदल रहा है...',
+  },
+  balances: {
+    title: 'बैलेंस',
+    refresh: 'बैलेंस रीफ़्रेश करें',
+    error: 'बैलेंस लोड नहीं हो सका: {error}',
+  },
+  contact: {
+    name: 'नाम',
+    email: 'ईमेल',
+    message: 'संदेश',
+    includeWallet: 'मेरा सत्यापित वॉलेट पता शामिल करें',
+    sent: 'धन्यवाद, हमें आपका संदेश मिल गया।',
+    sendAnother: 'एक और भेजें',
+    notSent: 'संदेश नहीं भेजा गया',
+    couldNotSend: 'आपका संदेश नहीं भेजा जा सका',
+    tryAgain: 'कृपया फिर से कोशिश करें।',
+    send: 'संदेश भेजें',
+    tooMany: 'बहुत सारे संदेश भेजे गए, कृपया कुछ देर बाद फिर से कोशिश करें।',
+    errors: {
+      nameRequired: 'कृपया अपना नाम लिखें',
+      nameTooLong: 'कृपया अधिकतम 100 अक्षर लिखें',
+      emailInvalid: 'कृपया एक मान्य ईमेल पता लिखें',
+      messageTooShort: 'कृपया कम से कम 10 अक्षर लिखें',
+      messageTooLong: 'कृपया अधिकतम 5,000 अक्षर लिखें',
+    },
+  },
+  gate: {
+    requires: 'आवश्यक:',
+    getAccess: 'पहुँच पाएँ',
+    checkAgain: 'फिर से जाँचें',
+    titles: {
+      'usdc-holders': 'USDC धारक',
+      'nft-holders': 'संग्राहक',
+      'sol-usdc-holders': 'Solana USDC धारक',
+      'atom-stakers': 'स्टेकर',
+    },
+    conditions: {
+      hold: '{chain} पर कम से कम {amount} {symbol} रखें',
+      ownNft: '{chain} पर {collection} का एक NFT रखें',
+      stake: '{chain} पर {validator} के साथ कम से कम {amount} {denom} स्टेक करें',
+    },
+  },
+  connect: {
+    metaTitle: 'अपना वॉलेट कनेक्ट करें',
+    unauthenticated: {
+      title: 'अपना वॉलेट कनेक्ट करें',
+      description: 'यह पेज सदस्यों के लिए है। जारी रखने के लिए वॉलेट कनेक्ट करें और साइन इन करें।',
+    },
+    wrong_family: {
+      title: 'दूसरा वॉलेट चाहिए',
+      description: 'इस पेज के लिए किसी दूसरे नेटवर्क का वॉलेट चाहिए। जारी रखने के लिए उसे कनेक्ट करें।',
+    },
+    not_allowlisted: {
+      title: 'पहुँच प्रतिबंधित',
+      description: 'आपके किसी भी कनेक्टेड वॉलेट को इस पेज की पहुँच नहीं है। जारी रखने के लिए अनुमति वाला वॉलेट कनेक्ट करें।',
+    },
+  },
+  project: {
+    backToProjects: 'प्रोजेक्ट पर वापस जाएँ',
+    techStack: 'टेक स्टैक',
+    repository: 'रिपॉज़िटरी',
+    liveDemo: 'लाइव डेमो',
+    contractOn: '{chain} पर कॉन्ट्रैक्ट:',
+    viewInExplorer: 'एक्सप्लोरर में देखें',
+    screenshots: 'स्क्रीनशॉट',
+    team: 'टीम',
+    viewImage: '{image} देखें',
+    imageCount: '{total} में से तस्वीर {index}',
+    previousImage: 'पिछली तस्वीर',
+    nextImage: 'अगली तस्वीर',
+  },
+  account: {
+    title: 'खाता',
+    loading: 'आपका खाता लोड हो रहा है...',
+    noWalletTitle: 'कोई वॉलेट कनेक्ट नहीं है',
+    noWalletDescription: 'अपना खाता देखने के लिए वॉलेट फिर से कनेक्ट करें।',
+    walletsTitle: 'वॉलेट',
+    walletsDescription: 'कनेक्टेड वॉलेट और उनके खाते।',
+    unknownNetwork: 'अज्ञात नेटवर्क',
+    active: 'सक्रिय',
+    use: 'उपयोग करें',
+    copyAddress: 'पता कॉपी करें',
+    addressCopied: 'पता कॉपी हो गया',
+    copyFailed: 'पता कॉपी नहीं हो सका',
+    viewInExplorer: 'ब्लॉक एक्सप्लोरर में देखें',
+    network: 'नेटवर्क',
+    session: 'सत्र',
+    signedInUntil: '{date} तक साइन इन',
+    verified: '{date} को सत्यापित',
+    signOutAll: 'सभी सत्रों से साइन आउट करें',
+    history: 'इतिहास',
+    clear: 'साफ़ करें',
+    noHistory: 'अभी तक कोई कनेक्शन गतिविधि नहीं।',
+    changedTo: '{chain} पर',
+    events: {
+      connected: 'कनेक्ट किया',
+      disconnected: 'डिस्कनेक्ट किया',
+      account_changed: 'खाता बदला',
+      chain_changed: 'नेटवर्क बदला',
+    },
+  },
+}
@@ -0,0 +1,12 @@
+import type { Locale } from '../config'
+import { en } from './en'
+import { hi } from './hi'
+
+export type Messages = typeof en
+
+const catalogs: Record<Locale, Messages> = { en, hi }
+
+// Server only: pages and the layout pick one catalog, so the browser never downloads the others
+export function getMessages(locale: Locale): Messages {
+  return catalogs[locale]
+}
@@ -0,0 +1,22 @@
+import { defaultLocale, isLocale, type Locale } from './config'
+
+// Picks the best supported locale from an Accept-Language header, e.g. "hi-IN,hi;q=0.9,en;q=0.8"
+export function negotiateLocale(acceptLanguage: string | null): Locale {
+  const ranges = (acceptLanguage ?? '')
+    .split(',')
+    .map((entry) => {
+      const [range, ...params] = entry.trim().toLowerCase().split(';')
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='))
+      return { range, quality: q ? Number(q.slice(2)) : 1 }
+    })
+    .filter(({ range, quality }) => range && quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+
+  for (const { range } of ranges) {
+    // "hi-IN" falls back to "hi"
+    const language = range.split('-')[0]
+    if (isLocale(range)) return range
+    if (isLocale(language)) return language
+  }
+  return defaultLocale
+}
@@ -0,0 +1,14 @@
+import { createPublicClient, http, type Address } from 'viem'
+import { mainnet } from 'viem/chains'
+import { normalize } from 'viem/ens'
+import type { NameResolver } from './types'
+
+// ENS lives on mainnet whatever network the wallet is on
+const client = createPublicClient({ chain: mainnet, transport: http() })
+
+export const ensResolver: NameResolver = async (address) => {
+  const name = await client.getEnsName({ address: address as Address })
+  if (!name) return null
+  const avatar = await client.getEnsAvatar({ name: normalize(name) }).catch(() => null)
+  return { name, avatar }
+}
@@ -0,0 +1,30 @@
+import { sha256 } from '@noble/hashes/sha2'
+import { utf8 } from '@scure/base'
+
+const GRID = 5
+
+/**
+ * Deterministic 5x5 mirrored identicon for an address, as an SVG data URI.
+ * Generated locally so it needs no network and is stable across visits.
+ */
+export function createIdenticon(address: string): string {
+  const hash = sha256(utf8.decode(address.toLowerCase()))
+  const hue = Math.round((hash[0] / 255) * 360)
+  const color = `hsl(${hue}, 65%, 50%)`
+  const background = `hsl(${hue}, 65%, 92%)`
+
+  const cells: string[] = []
+  for (let row = 0; row < GRID; row++) {
+    for (let col = 0; col < Math.ceil(GRID / 2); col++) {
+      if (hash[1 + row * GRID + col] % 2 === 0) continue
+      cells.push(`<rect x="${col}" y="${row}" width="1" height="1"/>`)
+      const mirrored = GRID - 1 - col
+      if (mirrored !== col) cells.push(`<rect x="${mirrored}" y="${row}" width="1" height="1"/>`)
+    }
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${GRID} ${GRID}" shape-rendering="crispEdges">`
+    + `<rect width="${GRID}" height="${GRID}" fill="${background}"/>`
+    + `<g fill="${color}">${cells.join('')}</g></svg>`
+  return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`
+}
@@ -0,0 +1,38 @@
+import type { WalletFamily } from '@/lib/auth/session'
+import { ensResolver } from './ens'
+import { snsResolver } from './sns'
+import type { NameResolver, ResolvedName } from './types'
+
+const resolvers: Partial<Record<WalletFamily, NameResolver>> = {
+  evm: ensResolver,
+  solana: snsResolver,
+}
+
+const CACHE_TTL = 10 * 60 * 1000
+const cache = new Map<string, { expiresAt: number; result: Promise<ResolvedName | null> }>()
+
+// Cosmos has no canonical naming service, so apps plug in their own (e.g. ICNS)
+export function setNameResolver(family: WalletFamily, resolver: NameResolver | undefined) {
+  resolvers[family] = resolver
+  for (const key of Array.from(cache.keys())) {
+    if (key.startsWith(`${family}:`)) cache.delete(key)
+  }
+}
+
+/**
+ * Resolves a human-readable name and avatar for an address. Lookups are cached
+ * (including misses and failures) so rendering the same address is cheap.
+ */
+export function resolveName(family: WalletFamily, address: string): Promise<ResolvedName | null> {
+  const key = `${family}:${address.toLowerCase()}`
+  const cached = cache.get(key)
+  if (cached && cached.expiresAt > Date.now()) return cached.result
+
+  const resolver = resolvers[family]
+  const result = resolver ? resolver(address).catch(() => null) : Promise.resolve(null)
+  cache.set(key, { expiresAt: Date.now() + CACHE_TTL, result })
+  return result
+}
+
+export { createIdenticon } from './identicon'
+export type { NameResolver, ResolvedName } from './types'
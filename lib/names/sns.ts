@@ -0,0 +1,12 @@
+import type { NameResolver } from './types'
+
+// Bonfida's public SNS proxy returns the owner's favorite (primary) .sol domain
+const SNS_PROXY = 'https://sns-sdk-proxy.bonfida.workers.dev'
+
+export const snsResolver: NameResolver = async (address) => {
+  const response = await fetch(`${SNS_PROXY}/favorite-domain/${address}`)
+  if (!response.ok) return null
+  const body = (await response.json()) as { s: string; result?: { reverse?: string } }
+  const domain = body.s === 'ok' ? body.result?.reverse : undefined
+  return domain ? { name: `${domain}.sol`, avatar: null } : null
+}
@@ -0,0 +1,6 @@
+export interface ResolvedName {
+  name: string | null
+  avatar: string | null
+}
+
+export type NameResolver = (address: string) => Promise<ResolvedName | null>
@@ -0,0 +1,63 @@
+import type { Messages } from '@/lib/i18n'
+
+// Labels are keys of the `nav` message catalog, so every locale names every item
+export type NavLabel = keyof Messages['nav']
+
+export interface NavLink {
+  label: NavLabel
+  // "#section" for a landing page section, otherwise a site path without the locale
+  href: string
+}
+
+export interface NavGroup {
+  label: NavLabel
+  children: NavItem[]
+}
+
+export type NavItem = NavLink | NavGroup
+
+/**
+ * The header navigation, for both the desktop bar and the mobile drawer.
+ * Groups open as a dropdown on desktop; a group inside a group becomes a submenu.
+ */
+export const navigation: NavItem[] = [
+  { label: 'projects', href: '#projects' },
+  {
+    label: 'about',
+    children: [
+      { label: 'aboutUs', href: '#about' },
+      { label: 'team', href: '#team' },
+      { label: 'members', href: '#members' },
+    ],
+  },
+  { label: 'contact', href: '#contact' },
+]
+
+export const isNavGroup = (item: NavItem): item is NavGroup => 'children' in item
+
+// Section ids linked from the navigation, in menu order, for scroll-spy
+export function navSectionIds(items: NavItem[]): string[] {
+  return items.flatMap((item) => {
+    if (isNavGroup(item)) return navSectionIds(item.children)
+    return item.href.startsWith('#') ? [item.href.slice(1)] : []
+  })
+}
+
+// Whether the item is, or contains, a link to the given section
+export function containsSection(item: NavItem, sectionId: string | null): boolean {
+  if (!sectionId) return false
+  return isNavGroup(item) ? item.children.some((child) => containsSection(child, sectionId)) : item.href === `#${sectionId}`
+}
+
+/**
+ * Scrolls to a landing page section and moves focus into it, for menus that
+ * would otherwise return focus to their trigger. False when the section isn't
+ * on this page.
+ */
+export function focusSection(sectionId: string): boolean {
+  const section = document.getElementById(sectionId)
+  if (!section) return false
+  section.focus({ preventScroll: true })
+  section.scrollIntoView()
+  return true
+}
@@ -0,0 +1,89 @@
+import type { Metadata } from 'next'
+import type { SiteContent } from '@/lib/content'
+import { localizePath, locales, type Locale } from '@/lib/i18n'
+
+/**
+ * The public origin, for canonical links, the sitemap and Open Graph URLs.
+ * Set SITE_URL in production; Vercel preview deployments fall back to their own URL.
+ */
+export function getSiteUrl(): URL {
+  if (process.env.SITE_URL) return new URL(process.env.SITE_URL)
+  if (process.env.VERCEL_URL) return new URL(`https://${process.env.VERCEL_URL}`)
+  return new URL('http://localhost:3000')
+}
+
+export const absoluteUrl = (path: string) => new URL(path, getSiteUrl()).toString()
+
+// Open Graph wants language and territory, e.g. "hi_IN"
+const ogLocales: Record<Locale, string> = {
+  en: 'en_US',
+  hi: 'hi_IN',
+}
+
+// The same page in every locale; x-default is the unprefixed path middleware routes by language
+export function languageAlternates(path: string): Record<string, string> {
+  return {
+    ...Object.fromEntries(locales.map((locale) => [locale, localizePath(locale, path)])),
+    'x-default': path,
+  }
+}
+
+interface PageMetadataOptions {
+  locale: Locale
+  // The path without the locale, e.g. "/projects/project-1"
+  path: string
+  title: Metadata['title']
+  description: string
+  type?: 'website' | 'article'
+}
+
+/**
+ * Title, description, canonical and hreflang links, Open Graph and Twitter card
+ * for one page. Next.js replaces rather than merges a parent's `openGraph`, so
+ * every page builds the whole set here. Images come from the nearest
+ * `opengraph-image.tsx`.
+ */
+export function pageMetadata(site: SiteContent['site'], { locale, path, title, description, type = 'website' }: PageMetadataOptions): Metadata {
+  const url = localizePath(locale, path)
+  const socialTitle = typeof title === 'string' ? title : site.title
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: url,
+      languages: languageAlternates(path),
+    },
+    openGraph: {
+      type,
+      url,
+      siteName: site.name,
+      locale: ogLocales[locale],
+      alternateLocale: locales.filter((other) => other !== locale).map((other) => ogLocales[other]),
+      title: socialTitle,
+      description,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: socialTitle,
+      description,
+    },
+  }
+}
+
+// schema.org data for the team section: the site's organization and its members
+export function organizationJsonLd({ site, team }: Pick<SiteContent, 'site' | 'team'>) {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Organization',
+    name: site.name,
+    description: site.description,
+    url: absoluteUrl('/'),
+    member: team.map((member) => ({
+      '@type': 'Person',
+      name: member.name,
+      jobTitle: member.role,
+      image: absoluteUrl(member.image),
+    })),
+  }
+}
@@ -0,0 +1,39 @@
+import { ImageResponse } from 'next/og'
+
+// What Open Graph and Twitter's large card both display well
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 }
+
+interface OgImageOptions {
+  siteName: string
+  title: string
+  description?: string
+}
+
+// Shared card for the opengraph-image routes: site name, then the page's title and summary
+export function renderOgImage({ siteName, title, description }: OgImageOptions) {
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 80,
+          background: 'linear-gradient(135deg, #09090b 0%, #27272a 100%)',
+          color: '#fafafa',
+        }}
+      >
+        <div style={{ display: 'flex', fontSize: 32, color: '#a1a1aa' }}>{siteName}</div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+          <div style={{ display: 'flex', fontSize: 72, lineHeight: 1.1 }}>{title}</div>
+          {description && (
+            <div style={{ display: 'flex', fontSize: 36, color: '#d4d4d8', lineHeight: 1.3 }}>{description}</div>
+          )}
+        </div>
+      </div>
+    ),
+    OG_IMAGE_SIZE,
+  )
+}
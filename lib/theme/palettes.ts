@@ -0,0 +1,64 @@
+// Color presets; each is a set of CSS variables in app/globals.css, for light and dark mode
+export const palettes = ['stone', 'slate', 'violet', 'high-contrast'] as const
+
+export type Palette = (typeof palettes)[number]
+
+export const defaultPalette: Palette = 'stone'
+
+// The light-mode primary color of each preset, for the swatches in the theme menu
+export const paletteSwatches: Record<Palette, string> = {
+  stone: 'hsl(24 9.8% 10%)',
+  slate: 'hsl(222.2 47.4% 11.2%)',
+  violet: 'hsl(262.1 83.3% 57.8%)',
+  'high-contrast': 'hsl(0 0% 0%)',
+}
+
+const PALETTE_KEY = 'palette'
+
+export function isPalette(value: string | null | undefined): value is Palette {
+  return (palettes as readonly string[]).includes(value ?? '')
+}
+
+/**
+ * Runs before first paint, from the root layout's <head>, so a stored preset
+ * is applied before anything renders in the default one. next-themes does the
+ * same for light and dark. The default preset is the plain :root variables and
+ * needs no attribute.
+ */
+export const paletteScript = `(function(){try{var p=localStorage.getItem(${JSON.stringify(PALETTE_KEY)});if(${JSON.stringify(palettes)}.indexOf(p)>0)document.documentElement.dataset.palette=p}catch(e){}})()`
+
+const listeners = new Set<() => void>()
+
+export function getPalette(): Palette {
+  if (typeof document === 'undefined') return defaultPalette
+  const value = document.documentElement.dataset.palette
+  return isPalette(value) ? value : defaultPalette
+}
+
+export function setPalette(palette: Palette) {
+  if (palette === defaultPalette) {
+    delete document.documentElement.dataset.palette
+    localStorage.removeItem(PALETTE_KEY)
+  } else {
+    document.documentElement.dataset.palette = palette
+    localStorage.setItem(PALETTE_KEY, palette)
+  }
+  listeners.forEach((listener) => listener())
+}
+
+export function subscribePalette(listener: () => void) {
+  // Other tabs change the stored preset; follow them
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== PALETTE_KEY) return
+    const value = event.newValue
+    if (isPalette(value) && value !== defaultPalette) document.documentElement.dataset.palette = value
+    else delete document.documentElement.dataset.palette
+    listener()
+  }
+  listeners.add(listener)
+  window.addEventListener('storage', onStorage)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('storage', onStorage)
+  }
+}
@@ -4,3 +4,7 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function truncateAddress(address: string, start = 6, end = 4) {
+  return address.length > start + end ? `${address.slice(0, start)}...${address.slice(-end)}` : address
+}
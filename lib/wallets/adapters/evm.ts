@@ -0,0 +1,130 @@
+import { numberToHex, stringToHex } from 'viem'
+import { getEvmChain } from '@/lib/chains/evm'
+import { WalletError, providerCode } from '../errors'
+import type { WalletAdapter, WalletDeepLink } from '../types'
+
+type Listener = (...args: unknown[]) => void
+
+export interface EthereumProvider {
+  isMetaMask?: boolean
+  request: (args: { method: string; params?: unknown[] }) => Promise<unknown>
+  on?: (event: string, handler: Listener) => void
+  removeListener?: (event: string, handler: Listener) => void
+}
+
+declare global {
+  interface Window {
+    ethereum?: EthereumProvider
+  }
+}
+
+const UNRECOGNIZED_CHAIN = 4902
+
+interface EvmAdapterOptions {
+  id: string
+  name: string
+  icon?: string
+  installUrl?: string
+  deepLink?: WalletDeepLink
+  // Resolved on every call, so each adapter talks to exactly one provider
+  provider: () => EthereumProvider | undefined
+}
+
+export function createEvmAdapter({ id, name, icon, installUrl, deepLink, provider }: EvmAdapterOptions): WalletAdapter {
+  const requireProvider = () => {
+    const ethereum = provider()
+    if (!ethereum) throw new WalletError('not_installed', `${name} not detected`)
+    return ethereum
+  }
+
+  return {
+    id,
+    name,
+    icon,
+    installUrl,
+    deepLink,
+    family: 'evm',
+
+    detect: () => typeof provider() !== 'undefined',
+
+    async connect() {
+      return await requireProvider().request({ method: 'eth_requestAccounts' }) as string[]
+    },
+
+    async reconnect() {
+      const ethereum = provider()
+      if (!ethereum) return []
+      return await ethereum.request({ method: 'eth_accounts' }) as string[]
+    },
+
+    async disconnect() {
+      // Not every EVM wallet supports revoking, and the app forgets the account either way
+      await provider()
+        ?.request({ method: 'wallet_revokePermissions', params: [{ eth_accounts: {} }] })
+        .catch(() => {})
+    },
+
+    onAccountsChanged(handler) {
+      const ethereum = provider()
+      const listener: Listener = (accounts) => handler(accounts as string[])
+      ethereum?.on?.('accountsChanged', listener)
+      return () => ethereum?.removeListener?.('accountsChanged', listener)
+    },
+
+    async signMessage(address, message) {
+      const signature = await requireProvider().request({
+        method: 'personal_sign',
+        params: [stringToHex(message), address],
+      }) as string
+      return { signature }
+    },
+
+    async getChain() {
+      const chainId = await requireProvider().request({ method: 'eth_chainId' }) as string
+      return { id: String(parseInt(chainId, 16)), family: 'evm' }
+    },
+
+    async switchChain(chainId) {
+      const ethereum = requireProvider()
+      const hexChainId = numberToHex(Number(chainId))
+      try {
+        await ethereum.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: hexChainId }] })
+      } catch (error) {
+        const chain = getEvmChain(chainId)
+        if (providerCode(error) !== UNRECOGNIZED_CHAIN || !chain) throw error
+
+        // The wallet doesn't know this network yet, so add it (which also switches to it)
+        await ethereum.request({
+          method: 'wallet_addEthereumChain',
+          params: [{
+            chainId: hexChainId,
+            chainName: chain.name,
+            nativeCurrency: chain.nativeCurrency,
+            rpcUrls: chain.rpcUrls.default.http,
+            blockExplorerUrls: chain.blockExplorers ? [chain.blockExplorers.default.url] : undefined,
+          }],
+        })
+      }
+    },
+
+    onChainChanged(handler) {
+      const ethereum = provider()
+      const listener: Listener = (chainId) => handler({ id: String(parseInt(chainId as string, 16)), family: 'evm' })
+      ethereum?.on?.('chainChanged', listener)
+      return () => ethereum?.removeListener?.('chainChanged', listener)
+    },
+  }
+}
+
+// Fallback for wallets that only inject `window.ethereum` and don't announce themselves
+export const injectedEvmAdapter = createEvmAdapter({
+  id: 'injected',
+  name: 'Browser Wallet',
+  installUrl: 'https://ethereum.org/en/wallets/find-wallet/',
+  deepLink: {
+    appName: 'MetaMask',
+    // MetaMask expects the URL without its protocol
+    browse: (url) => `https://metamask.app.link/dapp/${url.replace(/^https?:\/\//, '')}`,
+  },
+  provider: () => (typeof window === 'undefined' ? undefined : window.ethereum),
+})
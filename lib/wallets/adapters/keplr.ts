@@ -0,0 +1,130 @@
+import { cosmosChains, getCosmosChain, toKeplrChainInfo } from '@/lib/chains/cosmos'
+import { WalletError } from '../errors'
+import type { ChainInfo, WalletAdapter } from '../types'
+
+export interface KeplrProvider {
+  enable: (chainIds: string | string[]) => Promise<void>
+  disable?: (chainIds?: string | string[]) => Promise<void>
+  experimentalSuggestChain: (chainInfo: ReturnType<typeof toKeplrChainInfo>) => Promise<void>
+  getKey: (chainId: string) => Promise<{ name: string; bech32Address: string }>
+  signArbitrary: (chainId: string, signer: string, data: string) => Promise<{
+    pub_key: { type: string; value: string }
+    signature: string
+  }>
+}
+
+declare global {
+  interface Window {
+    keplr?: KeplrProvider
+  }
+}
+
+const provider = () => window.keplr
+
+const requireProvider = () => {
+  const keplr = provider()
+  if (!keplr) throw new WalletError('not_installed', 'Keplr not detected')
+  return keplr
+}
+
+let activeChainId = cosmosChains[0].chainId
+const chainListeners = new Set<(chain: ChainInfo) => void>()
+// Chains known to be approved, so reading their keys never prompts
+const enabledChainIds = new Set<string>()
+
+async function enableChain(keplr: KeplrProvider, chainId: string) {
+  const chain = getCosmosChain(chainId)
+  if (chain?.suggest) {
+    await keplr.experimentalSuggestChain(toKeplrChainInfo(chain))
+  }
+  await keplr.enable(chainId)
+  enabledChainIds.add(chainId)
+}
+
+async function getAccounts(keplr: KeplrProvider) {
+  const { bech32Address } = await keplr.getKey(activeChainId)
+  enabledChainIds.add(activeChainId)
+  return [bech32Address]
+}
+
+export const keplrAdapter: WalletAdapter = {
+  id: 'keplr',
+  name: 'Keplr',
+  installUrl: 'https://www.keplr.app/get',
+  deepLink: {
+    appName: 'Keplr',
+    browse: (url) => `keplrwallet://web-browser?url=${encodeURIComponent(url)}`,
+  },
+  family: 'cosmos',
+
+  detect: () => typeof provider() !== 'undefined',
+
+  async connect() {
+    const keplr = requireProvider()
+    await enableChain(keplr, activeChainId)
+    return getAccounts(keplr)
+  },
+
+  // Resumes on the chain the user last picked; any other chain could prompt
+  async reconnect(chainId) {
+    const keplr = provider()
+    if (!keplr) return []
+    if (chainId && getCosmosChain(chainId)) activeChainId = chainId
+    try {
+      return await getAccounts(keplr)
+    } catch {
+      // Silent fail if not already connected
+      return []
+    }
+  },
+
+  async disconnect() {
+    enabledChainIds.clear()
+    await provider()?.disable?.(cosmosChains.map((chain) => chain.chainId)).catch(() => {})
+  },
+
+  onAccountsChanged(handler) {
+    const onKeystoreChange = () => {
+      const keplr = provider()
+      if (!keplr) return handler([])
+      getAccounts(keplr).then(handler, () => handler([]))
+    }
+    window.addEventListener('keplr_keystorechange', onKeystoreChange)
+    return () => window.removeEventListener('keplr_keystorechange', onKeystoreChange)
+  },
+
+  async signMessage(address, message) {
+    const { signature, pub_key } = await requireProvider().signArbitrary(activeChainId, address, message)
+    return { signature, publicKey: pub_key.value }
+  },
+
+  async getChain() {
+    return { id: activeChainId, family: 'cosmos' }
+  },
+
+  async switchChain(chainId) {
+    if (!getCosmosChain(chainId)) throw new WalletError('unsupported_chain', `Unsupported Cosmos chain: ${chainId}`)
+    await enableChain(requireProvider(), chainId)
+    activeChainId = chainId
+    chainListeners.forEach((listener) => listener({ id: chainId, family: 'cosmos' }))
+  },
+
+  onChainChanged(handler) {
+    chainListeners.add(handler)
+    return () => chainListeners.delete(handler)
+  },
+
+  // Keplr's getKey asks for permission on a chain the user hasn't approved, so
+  // only chains this page has enabled or reconnected to are queried
+  async getChainAddresses() {
+    const keplr = provider()
+    if (!keplr) return []
+    const results = await Promise.allSettled(
+      cosmosChains.filter((chain) => enabledChainIds.has(chain.chainId)).map(async (chain) => ({
+        chainId: chain.chainId,
+        address: (await keplr.getKey(chain.chainId)).bech32Address,
+      })),
+    )
+    return results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []))
+  },
+}
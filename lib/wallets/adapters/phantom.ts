@@ -0,0 +1,91 @@
+import { base58 } from '@scure/base'
+import { activeSolanaCluster } from '@/lib/chains/solana'
+import { WalletError } from '../errors'
+import type { WalletAdapter } from '../types'
+
+type Listener = (...args: unknown[]) => void
+
+interface PublicKey {
+  toString: () => string
+}
+
+export interface PhantomProvider {
+  isPhantom?: boolean
+  connect: (options?: { onlyIfTrusted?: boolean }) => Promise<{ publicKey: PublicKey }>
+  disconnect: () => Promise<void>
+  signMessage: (message: Uint8Array, display?: 'utf8' | 'hex') => Promise<{ signature: Uint8Array }>
+  on: (event: string, handler: Listener) => void
+  removeListener: (event: string, handler: Listener) => void
+  isConnected: boolean
+  publicKey: PublicKey | null
+}
+
+declare global {
+  interface Window {
+    solana?: PhantomProvider
+  }
+}
+
+const provider = () => (window.solana?.isPhantom ? window.solana : undefined)
+
+export const phantomAdapter: WalletAdapter = {
+  id: 'phantom',
+  name: 'Phantom',
+  installUrl: 'https://phantom.app/download',
+  deepLink: {
+    appName: 'Phantom',
+    browse: (url) => `https://phantom.app/ul/browse/${encodeURIComponent(url)}?ref=${encodeURIComponent(new URL(url).origin)}`,
+  },
+  family: 'solana',
+
+  detect: () => typeof provider() !== 'undefined',
+
+  async connect() {
+    const solana = provider()
+    if (!solana) throw new WalletError('not_installed', 'Phantom not detected')
+    const { publicKey } = await solana.connect()
+    return [publicKey.toString()]
+  },
+
+  async reconnect() {
+    const solana = provider()
+    if (!solana) return []
+    if (solana.isConnected && solana.publicKey) return [solana.publicKey.toString()]
+    try {
+      const { publicKey } = await solana.connect({ onlyIfTrusted: true })
+      return [publicKey.toString()]
+    } catch {
+      // Not trusted yet, so connecting would need a prompt
+      return []
+    }
+  },
+
+  async disconnect() {
+    await provider()?.disconnect()
+  },
+
+  onAccountsChanged(handler) {
+    const solana = provider()
+    const onAccountChanged: Listener = (publicKey) => {
+      handler(publicKey ? [(publicKey as PublicKey).toString()] : [])
+    }
+    const onDisconnect: Listener = () => handler([])
+    solana?.on('accountChanged', onAccountChanged)
+    solana?.on('disconnect', onDisconnect)
+    return () => {
+      solana?.removeListener('accountChanged', onAccountChanged)
+      solana?.removeListener('disconnect', onDisconnect)
+    }
+  },
+
+  async signMessage(_address, message) {
+    const solana = provider()
+    if (!solana) throw new WalletError('not_installed', 'Phantom not detected')
+    const { signature } = await solana.signMessage(new TextEncoder().encode(message), 'utf8')
+    return { signature: base58.encode(signature) }
+  },
+
+  async getChain() {
+    return { id: activeSolanaCluster, family: 'solana' }
+  },
+}
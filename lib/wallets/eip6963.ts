@@ -0,0 +1,42 @@
+import { createEvmAdapter, type EthereumProvider } from './adapters/evm'
+import type { Unsubscribe, WalletAdapter } from './types'
+
+// https://eips.ethereum.org/EIPS/eip-6963
+export interface EIP6963ProviderInfo {
+  uuid: string
+  name: string
+  icon: string
+  rdns: string
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo
+  provider: EthereumProvider
+}
+
+type EIP6963AnnounceProviderEvent = CustomEvent<EIP6963ProviderDetail>
+
+/**
+ * Listens for wallets announcing themselves and asks already-loaded ones to
+ * announce again. Each distinct wallet (by rdns) is reported once.
+ */
+export function discoverEvmWallets(onWallet: (adapter: WalletAdapter) => void): Unsubscribe {
+  const seen = new Set<string>()
+
+  const onAnnounce = (event: Event) => {
+    const { info, provider } = (event as EIP6963AnnounceProviderEvent).detail
+    if (!info?.rdns || !provider || seen.has(info.rdns)) return
+    seen.add(info.rdns)
+
+    onWallet(createEvmAdapter({
+      id: `eip6963:${info.rdns}`,
+      name: info.name,
+      icon: info.icon,
+      provider: () => provider,
+    }))
+  }
+
+  window.addEventListener('eip6963:announceProvider', onAnnounce)
+  window.dispatchEvent(new Event('eip6963:requestProvider'))
+  return () => window.removeEventListener('eip6963:announceProvider', onAnnounce)
+}
@@ -0,0 +1,71 @@
+export type WalletErrorCode =
+  | 'not_installed'
+  | 'user_rejected'
+  | 'request_pending'
+  | 'locked'
+  | 'unauthorized'
+  | 'unsupported_chain'
+  | 'switch_unsupported'
+  | 'network'
+  | 'sign_in_failed'
+  | 'unknown'
+
+export class WalletError extends Error {
+  readonly code: WalletErrorCode
+
+  constructor(code: WalletErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message)
+    this.name = 'WalletError'
+    this.code = code
+    if (options?.cause !== undefined) this.cause = options.cause
+  }
+}
+
+export class SignInError extends WalletError {
+  constructor(message: string) {
+    super('sign_in_failed', message)
+    this.name = 'SignInError'
+  }
+}
+
+// EIP-1193 / JSON-RPC codes, also used by Phantom
+const providerCodes: Record<number, WalletErrorCode> = {
+  4001: 'user_rejected',
+  // Unauthorized: the site lost, or never had, access to the account
+  4100: 'unauthorized',
+  4902: 'unsupported_chain',
+  [-32002]: 'request_pending',
+}
+
+// Keplr rejects with plain Error messages instead of codes
+const messagePatterns: [RegExp, WalletErrorCode][] = [
+  [/request rejected|user rejected|rejected the request|user denied/i, 'user_rejected'],
+  [/already pending|request.*pending/i, 'request_pending'],
+  [/key ?ring is locked|\blocked\b/i, 'locked'],
+  [/no chain info|unsupported (cosmos )?chain|unrecognized chain/i, 'unsupported_chain'],
+  [/failed to fetch|networkerror|network request failed|load failed/i, 'network'],
+]
+
+// EIP-1193 errors may arrive wrapped by the wallet, e.g. MetaMask mobile
+export function providerCode(error: unknown): number | undefined {
+  const { code, data } = (error ?? {}) as { code?: unknown; data?: { originalError?: { code?: unknown } } }
+  const candidate = data?.originalError?.code ?? code
+  return typeof candidate === 'number' ? candidate : undefined
+}
+
+/**
+ * Maps whatever a wallet or fetch threw onto a WalletError, so the UI can
+ * pick a message and recovery action per failure type.
+ */
+export function toWalletError(error: unknown): WalletError {
+  if (error instanceof WalletError) return error
+
+  const message = error instanceof Error ? error.message : String(error)
+  const code = providerCode(error)
+  if (code !== undefined && providerCodes[code]) {
+    return new WalletError(providerCodes[code], message, { cause: error })
+  }
+
+  const match = messagePatterns.find(([pattern]) => pattern.test(message))
+  return new WalletError(match?.[1] ?? 'unknown', message, { cause: error })
+}
@@ -0,0 +1,56 @@
+import type { Unsubscribe, WalletFamily } from './types'
+
+export type WalletEventType = 'connected' | 'disconnected' | 'account_changed' | 'chain_changed'
+
+export interface WalletEvent {
+  type: WalletEventType
+  walletId: string
+  walletName: string
+  family: WalletFamily
+  address?: string
+  chainId?: string
+  at: number
+}
+
+// Kept in this browser only, newest first
+const HISTORY_KEY = 'walletHistory'
+const MAX_EVENTS = 50
+const EMPTY: WalletEvent[] = []
+
+const listeners = new Set<() => void>()
+let snapshot: WalletEvent[] | null = null
+
+function readHistory(): WalletEvent[] {
+  try {
+    const value = localStorage.getItem(HISTORY_KEY)
+    return value ? (JSON.parse(value) as WalletEvent[]) : EMPTY
+  } catch {
+    return EMPTY
+  }
+}
+
+function update(events: WalletEvent[]) {
+  snapshot = events
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(events))
+  listeners.forEach((listener) => listener())
+}
+
+// Returns a stable array between changes so it can back useSyncExternalStore
+export function getWalletHistory(): WalletEvent[] {
+  if (typeof window === 'undefined') return EMPTY
+  snapshot ??= readHistory()
+  return snapshot
+}
+
+export function recordWalletEvent(event: Omit<WalletEvent, 'at'>) {
+  update([{ ...event, at: Date.now() }, ...getWalletHistory()].slice(0, MAX_EVENTS))
+}
+
+export function clearWalletHistory() {
+  update(EMPTY)
+}
+
+export function subscribeWalletHistory(listener: () => void): Unsubscribe {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
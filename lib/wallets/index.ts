@@ -0,0 +1,44 @@
+import { registerWallet, unregisterWallet } from './registry'
+import { discoverEvmWallets } from './eip6963'
+import { injectedEvmAdapter } from './adapters/evm'
+import { phantomAdapter } from './adapters/phantom'
+import { keplrAdapter } from './adapters/keplr'
+
+function registerBuiltInWallets() {
+  registerWallet(injectedEvmAdapter)
+  registerWallet(phantomAdapter)
+  registerWallet(keplrAdapter)
+
+  if (typeof window === 'undefined') return
+  discoverEvmWallets((adapter) => {
+    // Announced wallets replace the single window.ethereum fallback
+    unregisterWallet(injectedEvmAdapter.id)
+    registerWallet(adapter)
+  })
+}
+
+// In-memory stand-ins for the browser extensions, for development only. They are
+// loaded on demand so production bundles leave them out, and the adapters are
+// registered once they are in place so a restore on page load finds them.
+if (typeof window !== 'undefined' && process.env.NODE_ENV !== 'production' && process.env.NEXT_PUBLIC_SIMULATED_WALLETS === 'true') {
+  import('./simulated')
+    .then(({ installSimulatedWallets }) => installSimulatedWallets())
+    .catch((error) => console.error('Failed to install simulated wallets:', error))
+    .finally(registerBuiltInWallets)
+} else {
+  registerBuiltInWallets()
+}
+
+export { registerWallet, unregisterWallet, getWallets, getWallet, subscribeWallets, waitForWallet } from './registry'
+export { createEvmAdapter } from './adapters/evm'
+export {
+  clearWalletHistory,
+  getWalletHistory,
+  recordWalletEvent,
+  subscribeWalletHistory,
+  type WalletEvent,
+  type WalletEventType,
+} from './history'
+export { isMobileBrowser, openInWallet, takeDeepLinkConnect } from './mobile'
+export { WalletError, SignInError, toWalletError, type WalletErrorCode } from './errors'
+export type { ChainAddress, ChainInfo, SignedChallenge, Unsubscribe, WalletAdapter, WalletDeepLink, WalletFamily } from './types'
@@ -0,0 +1,28 @@
+import type { WalletAdapter, WalletFamily } from './types'
+
+// Marks a page opened through a deep link, so the connect flow resumes inside the wallet's browser
+const CONNECT_PARAM = 'connectWallet'
+
+export function isMobileBrowser() {
+  if (typeof navigator === 'undefined') return false
+  return /Android|iPhone|iPad|iPod|Mobile/i.test(navigator.userAgent)
+}
+
+export function openInWallet(wallet: WalletAdapter) {
+  if (!wallet.deepLink) return
+  const url = new URL(window.location.href)
+  // The in-app browser announces its own wallet, so only the family carries over
+  url.searchParams.set(CONNECT_PARAM, wallet.family)
+  window.location.href = wallet.deepLink.browse(url.toString())
+}
+
+// Reads and removes the marker left by openInWallet
+export function takeDeepLinkConnect(): WalletFamily | null {
+  const url = new URL(window.location.href)
+  const family = url.searchParams.get(CONNECT_PARAM)
+  if (!family) return null
+
+  url.searchParams.delete(CONNECT_PARAM)
+  window.history.replaceState(window.history.state, '', url)
+  return family === 'evm' || family === 'solana' || family === 'cosmos' ? family : null
+}
@@ -0,0 +1,54 @@
+import type { Unsubscribe, WalletAdapter } from './types'
+
+const adapters = new Map<string, WalletAdapter>()
+const listeners = new Set<() => void>()
+let snapshot: WalletAdapter[] = []
+
+function emit() {
+  snapshot = Array.from(adapters.values())
+  listeners.forEach((listener) => listener())
+}
+
+export function registerWallet(adapter: WalletAdapter) {
+  adapters.set(adapter.id, adapter)
+  emit()
+}
+
+export function unregisterWallet(id: string) {
+  if (adapters.delete(id)) emit()
+}
+
+// Returns a stable array between changes so it can back useSyncExternalStore
+export function getWallets(): WalletAdapter[] {
+  return snapshot
+}
+
+export function getWallet(id: string): WalletAdapter | undefined {
+  return adapters.get(id)
+}
+
+export function subscribeWallets(listener: () => void): Unsubscribe {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+// Announced wallets (EIP-6963) register asynchronously, so callers restoring a
+// previous connection may need to wait briefly for the adapter to appear
+export function waitForWallet(id: string, timeout = 1000): Promise<WalletAdapter | undefined> {
+  const existing = adapters.get(id)
+  if (existing) return Promise.resolve(existing)
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      unsubscribe()
+      resolve(undefined)
+    }, timeout)
+    const unsubscribe = subscribeWallets(() => {
+      const adapter = adapters.get(id)
+      if (!adapter) return
+      clearTimeout(timer)
+      unsubscribe()
+      resolve(adapter)
+    })
+  })
+}
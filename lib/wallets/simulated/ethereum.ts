@@ -0,0 +1,91 @@
+import { numberToHex, toHex, type Hex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import type { EthereumProvider } from '../adapters/evm'
+import { createScript, deriveKey, providerError } from './script'
+
+export interface SimulatedEthereumOptions {
+  seed: string
+  accounts: number
+  chainId: number
+  // Chains the wallet knows up front; switching to others goes through wallet_addEthereumChain
+  knownChainIds: number[]
+}
+
+export function createSimulatedEthereum({ seed, accounts: count, chainId, knownChainIds }: SimulatedEthereumOptions) {
+  const script = createScript()
+  const accounts = Array.from({ length: count }, (_, index) => privateKeyToAccount(toHex(deriveKey(seed, 'evm', index))))
+  const knownChains = new Set([chainId, ...knownChainIds])
+  let selected = 0
+  let currentChainId = chainId
+  let authorized = false
+
+  // The selected account comes first, as in MetaMask
+  const addresses = () => [accounts[selected], ...accounts.filter((_, index) => index !== selected)]
+    .map((account) => account.address)
+
+  const provider: EthereumProvider = {
+    isMetaMask: false,
+    on: script.on,
+    removeListener: script.removeListener,
+
+    async request({ method, params = [] }) {
+      script.guard(method)
+      switch (method) {
+        case 'eth_requestAccounts':
+          authorized = true
+          return addresses()
+        case 'eth_accounts':
+          return authorized ? addresses() : []
+        case 'eth_chainId':
+          return numberToHex(currentChainId)
+        case 'personal_sign': {
+          const [data, address] = params as [Hex, string]
+          const account = accounts.find((candidate) => candidate.address.toLowerCase() === address.toLowerCase())
+          if (!authorized || !account) throw providerError({ code: 4100, message: 'Unauthorized' })
+          return account.signMessage({ message: { raw: data } })
+        }
+        case 'wallet_switchEthereumChain': {
+          const [{ chainId: requested }] = params as [{ chainId: Hex }]
+          if (!knownChains.has(Number(requested))) {
+            throw providerError({ code: 4902, message: `Unrecognized chain ID "${requested}".` })
+          }
+          controls.switchChain(Number(requested))
+          return null
+        }
+        case 'wallet_addEthereumChain': {
+          const [{ chainId: added }] = params as [{ chainId: Hex }]
+          knownChains.add(Number(added))
+          controls.switchChain(Number(added))
+          return null
+        }
+        case 'wallet_revokePermissions':
+          authorized = false
+          return null
+        default:
+          throw providerError({ code: 4200, message: `Unsupported method: ${method}` })
+      }
+    },
+  }
+
+  const controls = {
+    provider,
+    accounts: accounts.map((account) => account.address),
+    rejectNext: script.rejectNext,
+    // Like picking another account in the extension
+    selectAccount(index: number) {
+      selected = index
+      if (authorized) script.emit('accountsChanged', addresses())
+    },
+    switchChain(nextChainId: number) {
+      knownChains.add(nextChainId)
+      currentChainId = nextChainId
+      script.emit('chainChanged', numberToHex(nextChainId))
+    },
+    // Like disconnecting the site from inside the extension
+    disconnect() {
+      authorized = false
+      script.emit('accountsChanged', [])
+    },
+  }
+  return controls
+}
@@ -0,0 +1,53 @@
+import { createIdenticon } from '@/lib/names/identicon'
+import { createSimulatedEthereum } from './ethereum'
+import { createSimulatedSolana } from './solana'
+import { createSimulatedKeplr } from './keplr'
+
+export interface SimulatedWalletsOptions {
+  seed?: string
+  accounts?: number
+  evmChainId?: number
+}
+
+export type SimulatedWallets = ReturnType<typeof installSimulatedWallets>
+
+declare global {
+  interface Window {
+    __simulatedWallets?: SimulatedWallets
+  }
+}
+
+/**
+ * Replaces window.ethereum, window.solana and window.keplr with deterministic
+ * in-memory wallets, so every connect flow can run without browser
+ * extensions. The returned controls (also on `window.__simulatedWallets`)
+ * script account and chain changes, locking and one-off rejections, e.g.
+ * `__simulatedWallets.ethereum.rejectNext('personal_sign')`.
+ */
+export function installSimulatedWallets({ seed = 'simulated-wallet', accounts = 3, evmChainId = 31337 }: SimulatedWalletsOptions = {}) {
+  const ethereum = createSimulatedEthereum({ seed, accounts, chainId: evmChainId, knownChainIds: [1, 31337] })
+  const solana = createSimulatedSolana({ seed, accounts })
+  const keplr = createSimulatedKeplr({ seed, accounts, knownChainIds: ['cosmoshub-4', 'osmosis-1', 'juno-1'] })
+
+  window.ethereum = ethereum.provider
+  window.solana = solana.provider
+  window.keplr = keplr.provider
+
+  // Announce through EIP-6963 like a real extension
+  const detail = Object.freeze({
+    info: {
+      uuid: `simulated-${seed}`,
+      name: 'Simulated EVM Wallet',
+      icon: createIdenticon(seed),
+      rdns: 'dev.simulated.wallet',
+    },
+    provider: ethereum.provider,
+  })
+  const announce = () => window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail }))
+  window.addEventListener('eip6963:requestProvider', announce)
+  announce()
+
+  const controls = { ethereum, solana, keplr }
+  window.__simulatedWallets = controls
+  return controls
+}
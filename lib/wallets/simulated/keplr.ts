@@ -0,0 +1,92 @@
+import { secp256k1 } from '@noble/curves/secp256k1'
+import { base64 } from '@scure/base'
+import { adr036SignDocHash, cosmosAddress } from '@/lib/auth/adr036'
+import { getCosmosChain } from '@/lib/chains/cosmos'
+import type { KeplrProvider } from '../adapters/keplr'
+import { createScript, deriveKey } from './script'
+
+export interface SimulatedKeplrOptions {
+  seed: string
+  accounts: number
+  // Chains Keplr ships with; anything else needs experimentalSuggestChain first
+  knownChainIds: string[]
+}
+
+export function createSimulatedKeplr({ seed, accounts: count, knownChainIds }: SimulatedKeplrOptions) {
+  const script = createScript()
+  const keys = Array.from({ length: count }, (_, index) => {
+    const privateKey = deriveKey(seed, 'cosmos', index)
+    return { privateKey, publicKey: secp256k1.getPublicKey(privateKey, true) }
+  })
+  const knownChains = new Set(knownChainIds)
+  const enabledChains = new Set<string>()
+  let selected = 0
+  let locked = false
+
+  const addressFor = (chainId: string, index = selected) => (
+    cosmosAddress(getCosmosChain(chainId)?.bech32Prefix ?? 'cosmos', keys[index].publicKey)
+  )
+
+  // Keplr reports failures as plain errors, which toWalletError classifies by message
+  const assertUsable = (chainId: string) => {
+    if (locked) throw new Error('Key ring is locked')
+    if (!knownChains.has(chainId)) throw new Error(`There is no chain info for ${chainId}`)
+    if (!enabledChains.has(chainId)) throw new Error(`${chainId} is not enabled`)
+  }
+
+  const provider: KeplrProvider = {
+    async enable(chainIds) {
+      script.guard('enable')
+      if (locked) throw new Error('Key ring is locked')
+      for (const chainId of Array.isArray(chainIds) ? chainIds : [chainIds]) {
+        if (!knownChains.has(chainId)) throw new Error(`There is no chain info for ${chainId}`)
+        enabledChains.add(chainId)
+      }
+    },
+
+    async disable(chainIds) {
+      const ids = chainIds === undefined ? Array.from(enabledChains) : Array.isArray(chainIds) ? chainIds : [chainIds]
+      ids.forEach((chainId) => enabledChains.delete(chainId))
+    },
+
+    async experimentalSuggestChain(chainInfo) {
+      script.guard('experimentalSuggestChain')
+      knownChains.add(chainInfo.chainId)
+    },
+
+    async getKey(chainId) {
+      script.guard('getKey')
+      assertUsable(chainId)
+      return { name: `Simulated account ${selected + 1}`, bech32Address: addressFor(chainId) }
+    },
+
+    async signArbitrary(chainId, signer, data) {
+      script.guard('signArbitrary')
+      assertUsable(chainId)
+      const key = keys.find((_, index) => addressFor(chainId, index) === signer)
+      if (!key) throw new Error(`Unknown signer ${signer}`)
+      const signature = secp256k1.sign(adr036SignDocHash(signer, data), key.privateKey).toCompactRawBytes()
+      return {
+        pub_key: { type: 'tendermint/PubKeySecp256k1', value: base64.encode(key.publicKey) },
+        signature: base64.encode(signature),
+      }
+    },
+  }
+
+  return {
+    provider,
+    addressFor,
+    rejectNext: script.rejectNext,
+    // Like switching accounts in the extension, which fires keplr_keystorechange
+    selectAccount(index: number) {
+      selected = index
+      window.dispatchEvent(new Event('keplr_keystorechange'))
+    },
+    lock() {
+      locked = true
+    },
+    unlock() {
+      locked = false
+    },
+  }
+}
@@ -0,0 +1,49 @@
+import { sha256 } from '@noble/hashes/sha2'
+import { utf8 } from '@scure/base'
+
+type Listener = (...args: unknown[]) => void
+
+export interface SimulatedFailure {
+  code?: number
+  message: string
+}
+
+export const USER_REJECTED: SimulatedFailure = { code: 4001, message: 'User rejected the request.' }
+
+export function providerError({ code, message }: SimulatedFailure) {
+  return Object.assign(new Error(message), code === undefined ? {} : { code })
+}
+
+// Same seed, same keys: simulated accounts are stable across reloads and test runs
+export function deriveKey(seed: string, family: string, index: number): Uint8Array {
+  return sha256(utf8.decode(`${seed}:${family}:${index}`))
+}
+
+/**
+ * Event emitter plus a queue of scripted failures, shared by the simulated
+ * providers. `rejectNext` makes the next call of a method fail once.
+ */
+export function createScript() {
+  const listeners = new Map<string, Set<Listener>>()
+  const failures = new Map<string, SimulatedFailure[]>()
+
+  return {
+    on(event: string, handler: Listener) {
+      if (!listeners.has(event)) listeners.set(event, new Set())
+      listeners.get(event)!.add(handler)
+    },
+    removeListener(event: string, handler: Listener) {
+      listeners.get(event)?.delete(handler)
+    },
+    emit(event: string, ...args: unknown[]) {
+      listeners.get(event)?.forEach((handler) => handler(...args))
+    },
+    rejectNext(method: string, failure: SimulatedFailure = USER_REJECTED) {
+      failures.set(method, [...(failures.get(method) ?? []), failure])
+    },
+    guard(method: string) {
+      const failure = failures.get(method)?.shift()
+      if (failure) throw providerError(failure)
+    },
+  }
+}
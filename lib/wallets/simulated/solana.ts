@@ -0,0 +1,71 @@
+import { ed25519 } from '@noble/curves/ed25519'
+import { base58 } from '@scure/base'
+import type { PhantomProvider } from '../adapters/phantom'
+import { createScript, deriveKey, providerError, USER_REJECTED } from './script'
+
+export interface SimulatedSolanaOptions {
+  seed: string
+  accounts: number
+}
+
+export function createSimulatedSolana({ seed, accounts: count }: SimulatedSolanaOptions) {
+  const script = createScript()
+  const keys = Array.from({ length: count }, (_, index) => {
+    const secretKey = deriveKey(seed, 'solana', index)
+    const address = base58.encode(ed25519.getPublicKey(secretKey))
+    return { secretKey, publicKey: { toString: () => address } }
+  })
+  let selected = 0
+  // Phantom only reconnects silently (onlyIfTrusted) after the user approved the site once
+  let trusted = false
+
+  const provider: PhantomProvider = {
+    isPhantom: true,
+    isConnected: false,
+    publicKey: null,
+    on: script.on,
+    removeListener: script.removeListener,
+
+    async connect(options) {
+      script.guard('connect')
+      if (options?.onlyIfTrusted && !trusted) throw providerError(USER_REJECTED)
+      trusted = true
+      provider.isConnected = true
+      provider.publicKey = keys[selected].publicKey
+      script.emit('connect', provider.publicKey)
+      return { publicKey: keys[selected].publicKey }
+    },
+
+    async disconnect() {
+      script.guard('disconnect')
+      provider.isConnected = false
+      provider.publicKey = null
+      script.emit('disconnect')
+    },
+
+    async signMessage(message) {
+      script.guard('signMessage')
+      if (!provider.isConnected) throw providerError({ code: 4100, message: 'Unauthorized' })
+      return { signature: ed25519.sign(message, keys[selected].secretKey) }
+    },
+  }
+
+  return {
+    provider,
+    accounts: keys.map(({ publicKey }) => publicKey.toString()),
+    rejectNext: script.rejectNext,
+    selectAccount(index: number) {
+      selected = index
+      if (!provider.isConnected) return
+      provider.publicKey = keys[index].publicKey
+      script.emit('accountChanged', keys[index].publicKey)
+    },
+    // Like disconnecting the site from inside the extension
+    disconnect() {
+      trusted = false
+      provider.isConnected = false
+      provider.publicKey = null
+      script.emit('disconnect')
+    },
+  }
+}
@@ -0,0 +1,58 @@
+import type { SignedChallenge } from '@/lib/auth/client'
+import type { WalletFamily } from '@/lib/auth/session'
+
+export type { SignedChallenge, WalletFamily }
+
+export interface ChainInfo {
+  // Decimal chain id for EVM, cluster name for Solana, chain id for Cosmos
+  id: string
+  family: WalletFamily
+}
+
+export interface ChainAddress {
+  chainId: string
+  address: string
+}
+
+export type Unsubscribe = () => void
+
+// Mobile wallets ship an in-app browser that injects their provider
+export interface WalletDeepLink {
+  // The app the link opens, e.g. MetaMask for the generic EVM entry
+  appName: string
+  // Builds a link that opens `url` in the app's browser
+  browse: (url: string) => string
+}
+
+/**
+ * Everything the UI needs from a wallet. Adapters own their provider typings
+ * and event wiring, so adding a wallet means registering a new adapter.
+ */
+export interface WalletAdapter {
+  id: string
+  name: string
+  // Data URI or URL, shown next to the name when present
+  icon?: string
+  // Where to send users who don't have the wallet yet
+  installUrl?: string
+  // Used on mobile browsers, where no wallet is injected
+  deepLink?: WalletDeepLink
+  family: WalletFamily
+  // Whether the wallet's provider is injected into the page
+  detect: () => boolean
+  // Prompts the user and resolves with the authorized accounts
+  connect: () => Promise<string[]>
+  // Resolves with already-authorized accounts without prompting, or []. `chainId`
+  // is the chain to resume on, for wallets where the page picks the chain.
+  reconnect: (chainId?: string) => Promise<string[]>
+  disconnect: () => Promise<void>
+  // Called with the new accounts, or [] when the wallet disconnects
+  onAccountsChanged: (handler: (accounts: string[]) => void) => Unsubscribe
+  signMessage: (address: string, message: string) => Promise<SignedChallenge>
+  getChain: () => Promise<ChainInfo>
+  // Optional: wallets that can change networks on request
+  switchChain?: (chainId: string) => Promise<void>
+  onChainChanged?: (handler: (chain: ChainInfo) => void) => Unsubscribe
+  // Optional: wallets whose address differs per chain (e.g. bech32 prefixes)
+  getChainAddresses?: () => Promise<ChainAddress[]>
+}
@@ -0,0 +1,48 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { checkAccess, matchProtectedRoute } from '@/lib/auth/access'
+import { CONNECT_PATH, protectedRoutes } from '@/lib/auth/routes'
+import { SESSION_COOKIE, verifyToken, type WalletSession } from '@/lib/auth/session'
+import { isLocale, localizePath, LOCALE_COOKIE, splitLocale } from '@/lib/i18n/config'
+import { negotiateLocale } from '@/lib/i18n/negotiate'
+
+// Files in public/ are served as they are, without a locale
+const PUBLIC_FILE = /\.[^/]+$/
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  const isApi = pathname.startsWith('/api/')
+  if (!isApi && PUBLIC_FILE.test(pathname)) return NextResponse.next()
+
+  // Pages live under /<locale>; send unprefixed paths to the visitor's language
+  const { locale, pathname: sitePath } = isApi ? { locale: null, pathname } : splitLocale(pathname)
+  if (!isApi && !locale) {
+    const cookieLocale = request.cookies.get(LOCALE_COOKIE)?.value
+    const preferred = isLocale(cookieLocale) ? cookieLocale : negotiateLocale(request.headers.get('accept-language'))
+    return NextResponse.redirect(new URL(`${localizePath(preferred, pathname)}${search}`, request.url))
+  }
+
+  // Protected routes are listed without the locale
+  const route = matchProtectedRoute(protectedRoutes, sitePath)
+  if (!route) return NextResponse.next()
+
+  const session = await verifyToken<WalletSession>(request.cookies.get(SESSION_COOKIE)?.value)
+  const access = checkAccess(route.rule, session)
+  if (access.ok) return NextResponse.next()
+
+  if (isApi || !locale) {
+    return NextResponse.json(
+      { error: access.reason === 'unauthenticated' ? 'Not signed in' : 'Forbidden' },
+      { status: access.reason === 'unauthenticated' ? 401 : 403 },
+    )
+  }
+
+  const connectUrl = new URL(localizePath(locale, CONNECT_PATH), request.url)
+  connectUrl.searchParams.set('next', `${pathname}${search}`)
+  connectUrl.searchParams.set('reason', access.reason)
+  return NextResponse.redirect(connectUrl)
+}
+
+export const config = {
+  // Skip static assets; everything else gets a locale and is matched against protectedRoutes
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+}